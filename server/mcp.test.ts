@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { WebSocket } from "ws";
+import {
+    createMcpBridgeServer,
+    STRUCTURE_URI,
+    type JsonRpcMessage,
+    type McpBridgeServer,
+} from "./mcp";
+import type { LLMActionMap, SemanticStructure } from "../src/langact/Langact";
+import type { BridgeCall, BridgeMessage } from "../src/langact/mcpBridge";
+
+const TOKEN = "secret";
+
+const llmActionMap: LLMActionMap = {
+    "tasks.add": {
+        description: "Add a task",
+        component: "button",
+        event: "onClick",
+        path: "TodoList > button",
+        semanticId: "",
+        identifyingProps: {},
+        parameters: ["title"],
+        parameterSchema: {
+            type: "array",
+            items: [{ name: "title", type: "string" }],
+            minItems: 1,
+            additionalItems: false,
+            source: "declared",
+        },
+        destructive: false,
+        signature: "tasks.add(title)",
+    },
+};
+
+const semanticStructure: SemanticStructure = {
+    component: "TodoList",
+    children: [{ component: "h2", text: "Tasks" }],
+};
+
+// Opens a socket the way a page would; resolves with it once open, or with
+// the HTTP status the server refused it with
+function connect(
+    port: number,
+    { token = TOKEN, origin }: { token?: string; origin?: string } = {}
+): Promise<WebSocket | number> {
+    const query = token ? `?token=${token}` : "";
+    const socket = new WebSocket(`ws://127.0.0.1:${port}/${query}`, {
+        origin,
+    });
+    return new Promise((resolve, reject) => {
+        socket.once("open", () => resolve(socket));
+        socket.once("unexpected-response", (_req, res) =>
+            resolve(res.statusCode ?? 0)
+        );
+        socket.once("error", reject);
+    });
+}
+
+describe("MCP bridge server", () => {
+    let server: McpBridgeServer;
+    let port: number;
+    let notifications: JsonRpcMessage[];
+    const sockets: WebSocket[] = [];
+
+    const request = (method: string, params: Record<string, unknown> = {}) =>
+        server.handle({ jsonrpc: "2.0", id: 1, method, params });
+
+    // Connects as the page and sends its state
+    const openPage = async () => {
+        const page = await connect(port);
+        if (typeof page === "number") throw new Error(`Refused: ${page}`);
+        sockets.push(page);
+        const state: BridgeMessage = {
+            type: "state",
+            llmActionMap,
+            semanticStructure,
+        };
+        page.send(JSON.stringify(state));
+        await expect
+            .poll(() => notifications.map((n) => n.method))
+            .toContain("notifications/tools/list_changed");
+        return page;
+    };
+
+    beforeEach(async () => {
+        notifications = [];
+        server = createMcpBridgeServer({
+            port: 0,
+            token: TOKEN,
+            allowedOrigins: ["https://example.github.io"],
+            notify: (message) => notifications.push(message),
+            log: () => {},
+        });
+        port = await server.ready;
+    });
+
+    afterEach(async () => {
+        sockets.splice(0).forEach((socket) => socket.terminate());
+        await server.close();
+    });
+
+    it("lists the page's actions as tools", async () => {
+        await openPage();
+
+        const response = await request("tools/list");
+
+        expect(response?.result).toEqual({
+            tools: [
+                {
+                    name: "tasks_add",
+                    description: "Add a task",
+                    inputSchema: {
+                        type: "object",
+                        properties: { title: { type: "string" } },
+                        required: ["title"],
+                    },
+                },
+            ],
+        });
+    });
+
+    it("serves the semantic structure as a resource", async () => {
+        await openPage();
+
+        const response = await request("resources/read", {
+            uri: STRUCTURE_URI,
+        });
+
+        expect(response?.result).toEqual({
+            contents: [
+                {
+                    uri: STRUCTURE_URI,
+                    mimeType: "application/json",
+                    text: JSON.stringify(semanticStructure),
+                },
+            ],
+        });
+    });
+
+    it("forwards tool calls to the page and returns its result", async () => {
+        const page = await openPage();
+        const calls: BridgeCall[] = [];
+        page.on("message", (data) => {
+            const call = JSON.parse(String(data)) as BridgeCall;
+            calls.push(call);
+            const result: BridgeMessage = {
+                type: "result",
+                id: call.id,
+                ok: true,
+                text: "Added Buy milk",
+            };
+            page.send(JSON.stringify(result));
+        });
+
+        const response = await request("tools/call", {
+            name: "tasks_add",
+            arguments: { title: "Buy milk" },
+        });
+
+        expect(calls).toEqual([
+            {
+                type: "call",
+                id: expect.any(Number),
+                actionId: "tasks.add",
+                parameters: ["Buy milk"],
+            },
+        ]);
+        expect(response?.result).toEqual({
+            content: [{ type: "text", text: "Added Buy milk" }],
+            isError: false,
+        });
+    });
+
+    it("accepts local and listed origins", async () => {
+        for (const origin of [
+            "http://localhost:5173",
+            "https://example.github.io",
+        ]) {
+            const socket = await connect(port, { origin });
+            expect(socket).toBeInstanceOf(WebSocket);
+            sockets.push(socket as WebSocket);
+        }
+    });
+
+    it("refuses pages from other origins", async () => {
+        expect(await connect(port, { origin: "https://evil.example" })).toBe(
+            403
+        );
+    });
+
+    it("refuses connections without the token", async () => {
+        expect(await connect(port, { token: "" })).toBe(403);
+        expect(await connect(port, { token: "wrong" })).toBe(403);
+    });
+});
@@ -0,0 +1,385 @@
+// server/mcp.ts
+//
+// Local Model Context Protocol server for a running Langact app. Agents and
+// editors start it as a stdio MCP server; the app connects to it over
+// WebSocket (see src/langact/mcpBridge.ts). Every action in the page's
+// `llmActionMap` is listed as a tool, the semantic structure is a resource,
+// and tool calls are forwarded to the page, which runs them through its
+// registry.
+//
+// Build with `npm run mcp:build`, then register
+// `node <repo>/dist-ssr/mcp.js` as a stdio server in the MCP client.
+//
+// Whichever page connected last is the one driven, so connections are
+// checked first: browsers must come from a local origin or one listed in
+// LANGACT_MCP_ORIGINS, and with LANGACT_MCP_TOKEN set every connection must
+// present the token. Otherwise any site open in the browser could take over.
+import { timingSafeEqual } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import { createInterface } from "node:readline";
+import { pathToFileURL } from "node:url";
+import { WebSocketServer, type WebSocket } from "ws";
+import {
+    createToolDefinitions,
+    toPositionalParameters,
+    type ToolDefinition,
+} from "../src/langact/tools";
+import type { SemanticStructure } from "../src/langact/Langact";
+import type { BridgeCall, BridgeMessage } from "../src/langact/mcpBridge";
+
+export const STRUCTURE_URI = "langact://semantic-structure";
+const PROTOCOL_VERSION = "2025-06-18";
+const CALL_TIMEOUT = 30000;
+
+export type JsonRpcMessage = {
+    jsonrpc: "2.0";
+    id?: number | string | null;
+    method?: string;
+    params?: Record<string, unknown>;
+    result?: unknown;
+    error?: { code: number; message: string };
+};
+
+type ToolResult = {
+    content: Array<{ type: "text"; text: string }>;
+    isError: boolean;
+};
+
+export type McpBridgeOptions = {
+    port?: number;
+    /**
+     * Origins, besides localhost ones, whose pages may connect, e.g.
+     * "https://example.github.io".
+     */
+    allowedOrigins?: string[];
+    /** Shared secret the page must send as the `token` query parameter. */
+    token?: string;
+    notify?: (message: JsonRpcMessage) => void;
+    log?: (message: string) => void;
+};
+
+export type McpBridgeServer = {
+    /** Answers one JSON-RPC message; null for notifications. */
+    handle: (message: JsonRpcMessage) => Promise<JsonRpcMessage | null>;
+    /**
+     * Resolves with the port once the WebSocket server is listening, or
+     * rejects if it cannot listen, e.g. because the port is taken.
+     */
+    ready: Promise<number>;
+    close: () => Promise<void>;
+};
+
+class RpcError extends Error {
+    code: number;
+    constructor(code: number, message: string) {
+        super(message);
+        this.code = code;
+    }
+}
+
+function textResult(text: string, isError = false): ToolResult {
+    return { content: [{ type: "text", text }], isError };
+}
+
+const LOCAL_HOSTNAMES = ["localhost", "127.0.0.1", "[::1]"];
+
+function isLocalOrigin(origin: string): boolean {
+    try {
+        return LOCAL_HOSTNAMES.includes(new URL(origin).hostname);
+    } catch {
+        return false;
+    }
+}
+
+function tokensMatch(given: string | null, expected: string): boolean {
+    if (given === null) return false;
+    const a = Buffer.from(given);
+    const b = Buffer.from(expected);
+    return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Why a page may not connect, or null if it may. Requests without an Origin
+ * header come from local programs rather than browsers; they still need the
+ * token when one is set.
+ */
+export function rejectionReason(
+    req: IncomingMessage,
+    { allowedOrigins = [], token }: McpBridgeOptions
+): string | null {
+    const origin = req.headers.origin;
+    if (origin && !isLocalOrigin(origin) && !allowedOrigins.includes(origin)) {
+        return `origin ${origin} is not allowed`;
+    }
+    if (token !== undefined) {
+        const url = new URL(req.url ?? "/", "ws://localhost");
+        if (!tokensMatch(url.searchParams.get("token"), token)) {
+            return "missing or wrong token";
+        }
+    }
+    return null;
+}
+
+/**
+ * Creates the bridge: a WebSocket server for the page and a JSON-RPC handler
+ * for the MCP side. `notify` sends server-initiated notifications to the MCP
+ * client.
+ */
+export function createMcpBridgeServer(
+    options: McpBridgeOptions = {}
+): McpBridgeServer {
+    const {
+        port = 3939,
+        notify = () => {},
+        log = (message: string) => console.error(message),
+    } = options;
+    let page: WebSocket | null = null;
+    let tools: ToolDefinition[] = [];
+    let semanticStructure: SemanticStructure | null = null;
+    let nextCallId = 1;
+    const pending = new Map<number, (result: ToolResult) => void>();
+
+    const failPending = (reason: string) => {
+        pending.forEach((resolve) => resolve(textResult(reason, true)));
+        pending.clear();
+    };
+
+    const onPageMessage = (message: BridgeMessage) => {
+        if (message.type === "state") {
+            const previous = tools.map((tool) => tool.name).join("\n");
+            tools = createToolDefinitions(message.llmActionMap);
+            semanticStructure = message.semanticStructure;
+            if (tools.map((tool) => tool.name).join("\n") !== previous) {
+                notify({
+                    jsonrpc: "2.0",
+                    method: "notifications/tools/list_changed",
+                });
+            }
+        } else if (message.type === "result") {
+            pending.get(message.id)?.(textResult(message.text, !message.ok));
+            pending.delete(message.id);
+        }
+    };
+
+    const wss = new WebSocketServer({
+        port,
+        host: "127.0.0.1",
+        verifyClient: ({ req }, done) => {
+            const reason = rejectionReason(req, options);
+            if (reason) log(`Refused a connection: ${reason}`);
+            done(!reason, reason ? 403 : undefined);
+        },
+    });
+    const ready = new Promise<number>((resolve, reject) => {
+        wss.once("listening", () => {
+            // Port 0 picks a free port
+            const { port: listening } = wss.address() as { port: number };
+            log(
+                `Langact MCP bridge waiting for the app on ws://localhost:${listening}`
+            );
+            resolve(listening);
+            // Later errors would otherwise go unheard
+            wss.on("error", (err) =>
+                log(`WebSocket server error: ${err.message}`)
+            );
+        });
+        wss.once("error", reject);
+    });
+    wss.on("connection", (socket) => {
+        // The most recently opened page is the one being driven
+        if (page) failPending("The Langact app reconnected");
+        page = socket;
+        log("Langact app connected");
+        socket.on("message", (data) => {
+            try {
+                onPageMessage(JSON.parse(String(data)) as BridgeMessage);
+            } catch (err) {
+                log(`Ignoring bad message from the app: ${String(err)}`);
+            }
+        });
+        socket.on("close", () => {
+            if (page !== socket) return;
+            page = null;
+            failPending("The Langact app disconnected");
+            log("Langact app disconnected");
+        });
+    });
+
+    const callTool = (name: string, args: Record<string, unknown>) => {
+        const tool = tools.find((t) => t.name === name);
+        if (!tool) {
+            return Promise.resolve(textResult(`Unknown tool ${name}`, true));
+        }
+        if (!page) {
+            return Promise.resolve(
+                textResult("No Langact app is connected", true)
+            );
+        }
+        const call: BridgeCall = {
+            type: "call",
+            id: nextCallId++,
+            actionId: tool.actionId,
+            parameters: toPositionalParameters(args, tool.parameterSchema),
+        };
+        return new Promise<ToolResult>((resolve) => {
+            const timeout = setTimeout(() => {
+                pending.delete(call.id);
+                resolve(textResult(`${name} timed out`, true));
+            }, CALL_TIMEOUT);
+            pending.set(call.id, (result) => {
+                clearTimeout(timeout);
+                resolve(result);
+            });
+            page!.send(JSON.stringify(call));
+        });
+    };
+
+    const methods: Record<
+        string,
+        (params: Record<string, unknown>) => unknown
+    > = {
+        initialize: (params) => ({
+            protocolVersion:
+                typeof params.protocolVersion === "string"
+                    ? params.protocolVersion
+                    : PROTOCOL_VERSION,
+            capabilities: {
+                tools: { listChanged: true },
+                resources: {},
+            },
+            serverInfo: { name: "langact", version: "0.0.0" },
+            instructions:
+                "Tools act on the Langact app open in the browser. Read the semantic structure resource to see the current UI.",
+        }),
+        ping: () => ({}),
+        "tools/list": () => ({
+            tools: tools.map(({ name, description, parameters }) => ({
+                name,
+                description,
+                inputSchema: parameters,
+            })),
+        }),
+        "tools/call": (params) =>
+            callTool(
+                String(params.name),
+                (params.arguments as Record<string, unknown>) ?? {}
+            ),
+        "resources/list": () => ({
+            resources: [
+                {
+                    uri: STRUCTURE_URI,
+                    name: "Semantic structure",
+                    description:
+                        "The UI of the connected app, as Langact sees it",
+                    mimeType: "application/json",
+                },
+            ],
+        }),
+        "resources/read": (params) => {
+            if (params.uri !== STRUCTURE_URI) {
+                throw new RpcError(-32002, `Unknown resource ${params.uri}`);
+            }
+            return {
+                contents: [
+                    {
+                        uri: STRUCTURE_URI,
+                        mimeType: "application/json",
+                        text: JSON.stringify(semanticStructure),
+                    },
+                ],
+            };
+        },
+    };
+
+    return {
+        ready,
+        async handle(message) {
+            // Notifications (initialized, cancelled, ...) need no answer
+            if (message.id === undefined || message.id === null) return null;
+            if (!message.method) return null;
+            const method = methods[message.method];
+            if (!method) {
+                return {
+                    jsonrpc: "2.0",
+                    id: message.id,
+                    error: {
+                        code: -32601,
+                        message: `Method not found: ${message.method}`,
+                    },
+                };
+            }
+            try {
+                const result = await method(message.params ?? {});
+                return { jsonrpc: "2.0", id: message.id, result };
+            } catch (err) {
+                return {
+                    jsonrpc: "2.0",
+                    id: message.id,
+                    error: {
+                        code: err instanceof RpcError ? err.code : -32603,
+                        message: String(
+                            err instanceof Error ? err.message : err
+                        ),
+                    },
+                };
+            }
+        },
+        close() {
+            failPending("The bridge is shutting down");
+            return new Promise<void>((resolve) => {
+                wss.clients.forEach((client) => client.terminate());
+                wss.close(() => resolve());
+            });
+        },
+    };
+}
+
+// Stdio transport: one JSON-RPC message per line; stdout is reserved for
+// protocol messages, so logs go to stderr
+function serveStdio(): void {
+    const write = (message: JsonRpcMessage) => {
+        process.stdout.write(JSON.stringify(message) + "\n");
+    };
+    const server = createMcpBridgeServer({
+        port: Number(process.env.LANGACT_MCP_PORT) || 3939,
+        allowedOrigins: (process.env.LANGACT_MCP_ORIGINS ?? "")
+            .split(",")
+            .map((origin) => origin.trim())
+            .filter(Boolean),
+        token: process.env.LANGACT_MCP_TOKEN || undefined,
+        notify: write,
+    });
+    server.ready.catch((err: Error) => {
+        console.error(
+            `Langact MCP bridge could not listen for the app: ${err.message}. Is another bridge running? Set LANGACT_MCP_PORT to use another port.`
+        );
+        process.exit(1);
+    });
+    const lines = createInterface({ input: process.stdin });
+    lines.on("line", async (line) => {
+        if (!line.trim()) return;
+        let message: JsonRpcMessage;
+        try {
+            message = JSON.parse(line);
+        } catch {
+            write({
+                jsonrpc: "2.0",
+                id: null,
+                error: { code: -32700, message: "Parse error" },
+            });
+            return;
+        }
+        const response = await server.handle(message);
+        if (response) write(response);
+    });
+    lines.on("close", () => {
+        server.close().then(() => process.exit(0));
+    });
+}
+
+if (
+    process.argv[1] &&
+    import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+    serveStdio();
+}
@@ -0,0 +1,150 @@
+// server/mcpClient.ts
+//
+// Minimal stdio MCP client, standing in for an agent or editor when trying
+// the bridge locally. It starts the bridge, waits for the app to connect, and
+// runs one command:
+//
+//   node dist-ssr/mcpClient.js list
+//   node dist-ssr/mcpClient.js read
+//   node dist-ssr/mcpClient.js call <tool> '{"value": "Buy milk"}'
+import { spawn } from "node:child_process";
+import { createInterface } from "node:readline";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import type { JsonRpcMessage } from "./mcp";
+
+export type McpClient = {
+    request: (
+        method: string,
+        params?: Record<string, unknown>
+    ) => Promise<unknown>;
+    notify: (method: string, params?: Record<string, unknown>) => void;
+    /** Resolves on the next notification with this method. */
+    nextNotification: (method: string) => Promise<void>;
+    close: () => void;
+};
+
+/**
+ * Spawns an MCP server as a child process and talks to it over stdio.
+ */
+export function createStdioMcpClient(
+    command: string,
+    args: string[] = []
+): McpClient {
+    const child = spawn(command, args, {
+        stdio: ["pipe", "pipe", "inherit"],
+    });
+    let nextId = 1;
+    const pending = new Map<
+        number | string,
+        { resolve: (value: unknown) => void; reject: (err: Error) => void }
+    >();
+    const waiting = new Map<string, Array<() => void>>();
+
+    createInterface({ input: child.stdout }).on("line", (line) => {
+        const message = JSON.parse(line) as JsonRpcMessage;
+        if (message.id !== undefined && message.id !== null) {
+            const request = pending.get(message.id);
+            pending.delete(message.id);
+            if (message.error) {
+                request?.reject(new Error(message.error.message));
+            } else {
+                request?.resolve(message.result);
+            }
+        } else if (message.method) {
+            waiting.get(message.method)?.forEach((resolve) => resolve());
+            waiting.delete(message.method);
+        }
+    });
+    child.on("exit", () => {
+        pending.forEach(({ reject }) => reject(new Error("MCP server exited")));
+        pending.clear();
+    });
+
+    const send = (message: JsonRpcMessage) => {
+        child.stdin.write(JSON.stringify(message) + "\n");
+    };
+
+    return {
+        request(method, params = {}) {
+            const id = nextId++;
+            return new Promise((resolve, reject) => {
+                pending.set(id, { resolve, reject });
+                send({ jsonrpc: "2.0", id, method, params });
+            });
+        },
+        notify(method, params) {
+            send({ jsonrpc: "2.0", method, ...(params ? { params } : {}) });
+        },
+        nextNotification(method) {
+            return new Promise((resolve) => {
+                waiting.set(method, [...(waiting.get(method) ?? []), resolve]);
+            });
+        },
+        close() {
+            child.stdin.end();
+        },
+    };
+}
+
+type ToolList = { tools: Array<{ name: string; description: string }> };
+
+async function main([command = "list", ...rest]: string[]): Promise<void> {
+    const serverPath = fileURLToPath(new URL("./mcp.js", import.meta.url));
+    const client = createStdioMcpClient(process.execPath, [serverPath]);
+    try {
+        await client.request("initialize", {
+            protocolVersion: "2025-06-18",
+            capabilities: {},
+            clientInfo: { name: "langact-mcp-client", version: "0.0.0" },
+        });
+        client.notify("notifications/initialized");
+
+        // Tools appear once the app has connected and sent its state
+        let { tools } = (await client.request("tools/list")) as ToolList;
+        if (tools.length === 0) {
+            console.error("Waiting for the Langact app to connect...");
+            let timeout: NodeJS.Timeout | undefined;
+            await Promise.race([
+                client.nextNotification("notifications/tools/list_changed"),
+                new Promise((resolve) => {
+                    timeout = setTimeout(resolve, 30000);
+                }),
+            ]);
+            // A pending timer would keep the process alive after the answer
+            clearTimeout(timeout);
+            ({ tools } = (await client.request("tools/list")) as ToolList);
+        }
+
+        let result: unknown;
+        if (command === "list") {
+            result = tools;
+        } else if (command === "read") {
+            result = await client.request("resources/read", {
+                uri: "langact://semantic-structure",
+            });
+        } else if (command === "call") {
+            const [name, args = "{}"] = rest;
+            result = await client.request("tools/call", {
+                name,
+                arguments: JSON.parse(args),
+            });
+        } else {
+            throw new Error(
+                `Unknown command ${command}; use list, read or call`
+            );
+        }
+        console.log(JSON.stringify(result, null, 2));
+    } finally {
+        client.close();
+    }
+}
+
+if (
+    process.argv[1] &&
+    import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+    main(process.argv.slice(2)).catch((err) => {
+        console.error(String(err));
+        process.exit(1);
+    });
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { createRelay, relayOptionsFromEnv } from "./relay";
+
+const relayFromEnv = (rateLimit: string) =>
+    createRelay(relayOptionsFromEnv({ LANGACT_RELAY_RATE_LIMIT: rateLimit }));
+
+describe("relay rate limit", () => {
+    it.each(["20", "0", " 5 ", ""])("accepts %j", (rateLimit) => {
+        expect(() => relayFromEnv(rateLimit)).not.toThrow();
+    });
+
+    it.each(["twenty", "-1", "Infinity"])("refuses %j", (rateLimit) => {
+        expect(() => relayFromEnv(rateLimit)).toThrow(
+            /LANGACT_RELAY_RATE_LIMIT/
+        );
+    });
+});
@@ -0,0 +1,428 @@
+// server/relay.ts
+//
+// Chat relay that keeps provider credentials on the server. The page posts
+// OpenAI-style chat requests to one endpoint; the relay checks the model
+// against an allowlist, applies a per-client rate limit, adds the API key and
+// forwards the request to the real API, streaming the reply back. Every
+// request is logged with its token usage.
+//
+// `npm run dev` mounts it on the Vite dev server (see vite.config.ts). For
+// anything else run it on its own with `npm run relay`; the settings come
+// from the LANGACT_RELAY_* environment variables read by `relayOptionsFromEnv`.
+import {
+    createServer,
+    type IncomingMessage,
+    type ServerResponse,
+} from "node:http";
+import { pathToFileURL } from "node:url";
+
+export const RELAY_PATH = "/api/langact/chat/completions";
+const DEFAULT_BASE_URL = "https://openrouter.ai/api/v1";
+const DEFAULT_MODELS = ["openai/gpt-oss-20b:free"];
+const DEFAULT_RATE_LIMIT = 20;
+const RATE_WINDOW = 60000;
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+export type RelayOptions = {
+    /** OpenAI-compatible API the requests are forwarded to. */
+    baseUrl?: string;
+    apiKey?: string;
+    /** Models clients may ask for; the first is used when they name none. */
+    models?: string[];
+    /** Requests per client per minute; 0 disables the limit. */
+    rateLimit?: number;
+    /** Origins allowed to call the relay from another site (CORS). */
+    allowedOrigins?: string[];
+    /**
+     * Identify clients by the first `X-Forwarded-For` address. Only set this
+     * behind a proxy that overwrites the header.
+     */
+    trustProxy?: boolean;
+    /** Extra headers for the upstream API, e.g. OpenRouter's `X-Title`. */
+    headers?: Record<string, string>;
+    /** Called once per request; logs a line to stdout by default. */
+    onUsage?: (usage: RelayUsage) => void;
+};
+
+export type RelayUsage = {
+    client: string;
+    model: string;
+    /** HTTP status returned to the client. */
+    status: number;
+    duration: number;
+    promptTokens?: number;
+    completionTokens?: number;
+    error?: string;
+};
+
+export type Relay = {
+    /**
+     * Node request handler. Requests for other paths go to `next`, so it can
+     * be mounted as Connect middleware.
+     */
+    handle: (
+        req: IncomingMessage,
+        res: ServerResponse,
+        next?: () => void
+    ) => Promise<void>;
+};
+
+type ChatRequest = {
+    model?: unknown;
+    messages?: unknown;
+    tools?: unknown;
+    stream?: unknown;
+};
+
+type Usage = { prompt_tokens?: number; completion_tokens?: number };
+
+class RelayError extends Error {
+    status: number;
+    headers: Record<string, string>;
+    constructor(
+        status: number,
+        message: string,
+        headers: Record<string, string> = {}
+    ) {
+        super(message);
+        this.status = status;
+        this.headers = headers;
+    }
+}
+
+function logUsage(usage: RelayUsage): void {
+    const tokens =
+        usage.promptTokens === undefined
+            ? ""
+            : ` tokens=${usage.promptTokens}+${usage.completionTokens ?? 0}`;
+    console.log(
+        `[langact relay] ${new Date().toISOString()} client=${
+            usage.client
+        } model=${usage.model || "-"} status=${usage.status} ${
+            usage.duration
+        }ms${tokens}${usage.error ? ` error="${usage.error}"` : ""}`
+    );
+}
+
+// Fixed one-minute windows per client. Returns the ms until the client may
+// send again, or 0 when the request is allowed.
+function createRateLimiter(limit: number) {
+    const windows = new Map<string, { start: number; count: number }>();
+    return (client: string): number => {
+        if (limit <= 0) return 0;
+        const now = Date.now();
+        // Forget clients whose windows have ended
+        if (windows.size > 1000) {
+            windows.forEach((window, key) => {
+                if (now - window.start >= RATE_WINDOW) windows.delete(key);
+            });
+        }
+        let window = windows.get(client);
+        if (!window || now - window.start >= RATE_WINDOW) {
+            window = { start: now, count: 0 };
+            windows.set(client, window);
+        }
+        if (window.count >= limit) return window.start + RATE_WINDOW - now;
+        window.count++;
+        return 0;
+    };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new RelayError(413, "Request body is too large"));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+        req.on("error", reject);
+    });
+}
+
+function sendError(
+    res: ServerResponse,
+    { status, message, headers }: RelayError
+): void {
+    if (res.headersSent) {
+        res.end();
+        return;
+    }
+    res.writeHead(status, { "Content-Type": "application/json", ...headers });
+    res.end(JSON.stringify({ error: { message } }));
+}
+
+// Token counts from a streamed reply, which OpenAI-style APIs send in the last
+// chunk when asked with `stream_options.include_usage`
+function usageFromStream(text: string): Usage | undefined {
+    let usage: Usage | undefined;
+    text.split("\n").forEach((line) => {
+        if (!line.startsWith("data:") || !line.includes('"usage"')) return;
+        try {
+            usage = JSON.parse(line.slice(5)).usage ?? usage;
+        } catch {
+            // Not a complete JSON event
+        }
+    });
+    return usage;
+}
+
+/**
+ * Creates the relay. Without an API key it still answers, so a missing key
+ * shows up as an error in the page rather than as a failed dev server. An
+ * invalid rate limit throws instead of silently turning the limit off.
+ */
+export function createRelay({
+    baseUrl = DEFAULT_BASE_URL,
+    apiKey,
+    models = DEFAULT_MODELS,
+    rateLimit = DEFAULT_RATE_LIMIT,
+    allowedOrigins = [],
+    trustProxy = false,
+    headers = {},
+    onUsage = logUsage,
+}: RelayOptions = {}): Relay {
+    if (!Number.isFinite(rateLimit) || rateLimit < 0) {
+        throw new Error(
+            `The relay rate limit (LANGACT_RELAY_RATE_LIMIT) must be a number of requests per minute, or 0 for no limit; got ${rateLimit}`
+        );
+    }
+    const upstreamUrl = baseUrl.replace(/\/$/, "") + "/chat/completions";
+    const checkRate = createRateLimiter(rateLimit);
+
+    const clientOf = (req: IncomingMessage) => {
+        const forwarded = req.headers["x-forwarded-for"];
+        if (trustProxy && typeof forwarded === "string") {
+            return forwarded.split(",")[0].trim();
+        }
+        return req.socket.remoteAddress ?? "unknown";
+    };
+
+    const allowCors = (req: IncomingMessage, res: ServerResponse) => {
+        const origin = req.headers.origin;
+        if (origin && allowedOrigins.includes(origin)) {
+            res.setHeader("Access-Control-Allow-Origin", origin);
+            res.setHeader("Vary", "Origin");
+        }
+    };
+
+    // Only the fields the CommandBar sends are forwarded, so clients cannot
+    // raise limits like max_tokens
+    const parseRequest = (body: string) => {
+        let request: ChatRequest;
+        try {
+            request = JSON.parse(body);
+        } catch {
+            throw new RelayError(400, "Request body is not valid JSON");
+        }
+        if (!Array.isArray(request.messages)) {
+            throw new RelayError(400, "messages must be an array");
+        }
+        const model =
+            typeof request.model === "string" && request.model
+                ? request.model
+                : models[0];
+        if (!models.includes(model)) {
+            throw new RelayError(
+                400,
+                `Model ${model} is not allowed. Allowed: ${models.join(", ")}`
+            );
+        }
+        const stream = request.stream === true;
+        return {
+            model,
+            stream,
+            body: {
+                model,
+                messages: request.messages,
+                ...(Array.isArray(request.tools) && request.tools.length
+                    ? { tools: request.tools }
+                    : {}),
+                ...(stream
+                    ? { stream, stream_options: { include_usage: true } }
+                    : {}),
+            },
+        };
+    };
+
+    const relay = async (
+        req: IncomingMessage,
+        res: ServerResponse,
+        usage: RelayUsage
+    ) => {
+        const wait = checkRate(usage.client);
+        if (wait > 0) {
+            throw new RelayError(429, "Too many requests", {
+                "Retry-After": String(Math.ceil(wait / 1000)),
+            });
+        }
+        const { model, stream, body } = parseRequest(await readBody(req));
+        usage.model = model;
+        if (!apiKey) {
+            throw new RelayError(
+                500,
+                "The relay has no API key; set LANGACT_RELAY_API_KEY"
+            );
+        }
+        // Stop paying for a reply nobody is waiting for
+        const controller = new AbortController();
+        res.on("close", () => {
+            if (!res.writableFinished) controller.abort();
+        });
+        const upstream = await fetch(upstreamUrl, {
+            method: "POST",
+            headers: {
+                "Content-Type": "application/json",
+                ...headers,
+                Authorization: `Bearer ${apiKey}`,
+            },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+        });
+        usage.status = upstream.status;
+        const retryAfter = upstream.headers.get("retry-after");
+        res.writeHead(upstream.status, {
+            "Content-Type":
+                upstream.headers.get("content-type") ?? "application/json",
+            ...(retryAfter ? { "Retry-After": retryAfter } : {}),
+            ...(stream ? { "Cache-Control": "no-cache" } : {}),
+        });
+        if (!upstream.body) {
+            res.end();
+            return;
+        }
+        // Pass the reply through as it arrives, keeping a copy for the usage
+        const reader = upstream.body.getReader();
+        const decoder = new TextDecoder();
+        let text = "";
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            res.write(value);
+            text += decoder.decode(value, { stream: true });
+        }
+        res.end();
+        let counts: Usage | undefined;
+        if (stream) {
+            counts = usageFromStream(text);
+        } else {
+            try {
+                counts = JSON.parse(text).usage;
+            } catch {
+                // Error pages from proxies are not JSON
+            }
+        }
+        usage.promptTokens = counts?.prompt_tokens;
+        usage.completionTokens = counts?.completion_tokens;
+        if (!upstream.ok) usage.error = `Upstream ${upstream.statusText}`;
+    };
+
+    return {
+        async handle(req, res, next) {
+            if (req.url?.split("?")[0] !== RELAY_PATH) {
+                if (next) {
+                    next();
+                } else {
+                    sendError(res, new RelayError(404, "Not found"));
+                }
+                return;
+            }
+            allowCors(req, res);
+            if (req.method === "OPTIONS") {
+                res.writeHead(204, {
+                    "Access-Control-Allow-Methods": "POST",
+                    "Access-Control-Allow-Headers": "Content-Type",
+                    "Access-Control-Max-Age": "86400",
+                });
+                res.end();
+                return;
+            }
+            const usage: RelayUsage = {
+                client: clientOf(req),
+                model: "",
+                status: 200,
+                duration: 0,
+            };
+            const start = Date.now();
+            try {
+                if (req.method !== "POST") {
+                    throw new RelayError(405, "Use POST", { Allow: "POST" });
+                }
+                await relay(req, res, usage);
+            } catch (err) {
+                const error =
+                    err instanceof RelayError
+                        ? err
+                        : res.destroyed
+                        ? new RelayError(499, "The client closed the request")
+                        : new RelayError(
+                              502,
+                              `Upstream request failed: ${
+                                  err instanceof Error ? err.message : err
+                              }`
+                          );
+                usage.status = error.status;
+                usage.error = error.message;
+                sendError(res, error);
+            } finally {
+                usage.duration = Date.now() - start;
+                onUsage(usage);
+            }
+        },
+    };
+}
+
+const list = (value: string | undefined) =>
+    value
+        ?.split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+
+/**
+ * Relay settings from environment variables (or a Vite `loadEnv` result):
+ * LANGACT_RELAY_API_KEY, LANGACT_RELAY_BASE_URL, LANGACT_RELAY_MODELS and
+ * LANGACT_RELAY_ORIGINS (comma-separated), LANGACT_RELAY_RATE_LIMIT and
+ * LANGACT_RELAY_TRUST_PROXY.
+ */
+export function relayOptionsFromEnv(
+    env: Record<string, string | undefined>
+): RelayOptions {
+    const rateLimit = env.LANGACT_RELAY_RATE_LIMIT?.trim();
+    const models = list(env.LANGACT_RELAY_MODELS);
+    return {
+        apiKey: env.LANGACT_RELAY_API_KEY,
+        baseUrl: env.LANGACT_RELAY_BASE_URL || undefined,
+        models: models?.length ? models : undefined,
+        rateLimit: rateLimit ? Number(rateLimit) : undefined,
+        allowedOrigins: list(env.LANGACT_RELAY_ORIGINS),
+        trustProxy: env.LANGACT_RELAY_TRUST_PROXY === "true",
+        headers: { "X-Title": "Langact" },
+    };
+}
+
+function serve(): void {
+    const port = Number(process.env.LANGACT_RELAY_PORT) || 8787;
+    const relay = createRelay(relayOptionsFromEnv(process.env));
+    createServer((req, res) => relay.handle(req, res)).listen(
+        port,
+        process.env.LANGACT_RELAY_HOST ?? "127.0.0.1",
+        () => {
+            console.log(
+                `Langact relay listening on http://localhost:${port}${RELAY_PATH}`
+            );
+        }
+    );
+}
+
+if (
+    process.argv[1] &&
+    import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+    serve();
+}
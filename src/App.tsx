@@ -1,11 +1,28 @@
 import { TodoList } from "./components/TodoList";
 import { CommandBar } from "./components/CommandBar";
 import { Langact } from "./langact/Langact";
+import type { ActionPolicy } from "./langact/policy";
+import { useMcpBridge } from "./langact/useMcpBridge";
+
+const policy: ActionPolicy = {
+    deny: [{ component: "TaskItem", event: "onRestore" }],
+    destructive: [{ component: "TaskItem", event: "onDelete" }],
+};
+
+// Open the app with ?mcp to let agents drive it through `server/mcp.ts`,
+// or ?mcp=<token> when the server was started with LANGACT_MCP_TOKEN
+const mcpParam = new URLSearchParams(window.location.search).get("mcp");
+
+function McpBridge() {
+    useMcpBridge({ enabled: mcpParam !== null, token: mcpParam || undefined });
+    return null;
+}
 
 function App() {
     return (
-        <Langact>
+        <Langact policy={policy} executionMode="dom">
             <div className="app">
+                <McpBridge />
                 <div className="app-header">
                     <div className="app-icon">
                         <svg
@@ -1,126 +1,479 @@
 // src/components/CommandBar.tsx
-import React, { useState, useContext } from "react";
-import { LangactActionContext } from "../langact/Langact";
+import React, { useState, useContext, useEffect, useMemo, useRef } from "react";
+import {
+    LangactActionContext,
+    type ActionRegistryEntry,
+} from "../langact/Langact";
+import type { PlanStep, StepProgress } from "../langact/executor";
+import { rankActions, type RankedAction } from "../langact/matcher";
+import type { CompactionBudget } from "../langact/compaction";
+import { DEFAULT_CONTEXT_BUDGET, replyProse } from "../langact/command";
+import { describeChanges } from "../langact/diff";
+import { createRelayProvider, type LLMProvider } from "../langact/providers";
+import { filterByScope } from "../langact/scopes";
+import {
+    DEFAULT_RETRIES,
+    DEFAULT_TIMEOUT,
+    isAbortError,
+} from "../langact/retry";
+import {
+    DEFAULT_HISTORY_LIMIT,
+    appendTurn,
+    createTurn,
+    type ConversationTurn,
+} from "../langact/conversation";
 
-export const CommandBar: React.FC = () => {
+// The relay holds the API key; VITE_LANGACT_RELAY_URL points builds at one
+// hosted elsewhere
+const defaultProvider = createRelayProvider({
+    url: import.meta.env.VITE_LANGACT_RELAY_URL || undefined,
+});
+
+type PendingConfirmation = {
+    entry: ActionRegistryEntry;
+    args: unknown[];
+    resolve: (confirmed: boolean) => void;
+};
+
+// Status line as a batch of steps starts
+function describeStart(steps: PlanStep[], dryRun: boolean) {
+    return steps.length > 1
+        ? `${dryRun ? "Dry run of" : "Executing"} ${steps.length}-step plan...`
+        : `${dryRun ? "Dry run: would execute" : "Executing"} action: ${
+              steps[0].actionId
+          } with parameters: ${JSON.stringify(steps[0].parameters ?? [])}`;
+}
+
+// Status line for a step that ran: what it returned and how much changed
+function describeOutcome({ step, resolvedId, result, changes }: StepProgress) {
+    const returned =
+        result === undefined
+            ? ""
+            : `, which returned ${JSON.stringify(result)}`;
+    const changed = changes
+        ? ` ${changes.length || "No"} change${
+              changes.length === 1 ? "" : "s"
+          } in the UI.`
+        : "";
+    return `Ran ${resolvedId ?? step.actionId}${returned}.${changed}`;
+}
+
+// Status line once steps have run, if there is anything to report
+function describeResult(progress: StepProgress[], dryRun: boolean) {
+    const failure = progress.find((step) => step.error);
+    if (failure) return failure.error ?? "Action failed.";
+    if (progress.length > 1) {
+        return dryRun
+            ? `Dry run: ${progress.length}-step plan would run.`
+            : `Completed ${progress.length}-step plan.`;
+    }
+    return progress[0]?.status === "done"
+        ? describeOutcome(progress[0])
+        : undefined;
+}
+
+// Abort reason of a request replaced by a newer query
+const SUPERSEDED = "superseded";
+
+interface CommandBarProps {
+    /** Overrides the provider supplied by the surrounding <Langact>. */
+    provider?: LLMProvider;
+    /**
+     * "llm" (default) sends every query to the model, "local" only uses the
+     * offline matcher, "local-first" runs a confident local match instantly
+     * and falls back to the model otherwise.
+     */
+    matchMode?: "llm" | "local" | "local-first";
+    /** Size limit for the UI structure sent with each query. */
+    contextBudget?: CompactionBudget;
+    /**
+     * Only offer actions from this nested scope, e.g. "todo" or
+     * "todo.list". All scopes by default.
+     */
+    scope?: string;
+    /**
+     * Turns of conversation kept and sent with each query, so follow-ups
+     * can refer to earlier ones. 0 makes every query stand alone.
+     */
+    historyLimit?: number;
+    /**
+     * Ms to wait for the model to respond, or to stream its next piece,
+     * before retrying. 0 waits forever.
+     */
+    timeout?: number;
+    /** Retries after timeouts, rate limits and server errors. */
+    retries?: number;
+    /**
+     * What a query sent while the model is still answering another does:
+     * "supersede" (default) cancels the earlier request, "queue" waits for
+     * it. Either way actions already running are not interrupted.
+     */
+    whileBusy?: "supersede" | "queue";
+    /**
+     * Rounds of showing the model what its actions returned and changed in
+     * the UI, so it can confirm the result or correct it. 0 (default) skips
+     * the check.
+     */
+    verifyRounds?: number;
+}
+
+export const CommandBar: React.FC<CommandBarProps> = ({
+    provider,
+    matchMode = "llm",
+    contextBudget = DEFAULT_CONTEXT_BUDGET,
+    scope,
+    historyLimit = DEFAULT_HISTORY_LIMIT,
+    timeout = DEFAULT_TIMEOUT,
+    retries = DEFAULT_RETRIES,
+    whileBusy = "supersede",
+    verifyRounds = 0,
+}) => {
     const [query, setQuery] = useState("");
+    const [selectedIndex, setSelectedIndex] = useState(-1);
+    const inputRef = useRef<HTMLInputElement>(null);
     const [status, setStatus] = useState("");
+    // The model's reply to a question, shown apart from action statuses
+    const [answer, setAnswer] = useState("");
     const [loading, setLoading] = useState(false);
+    const [planProgress, setPlanProgress] = useState<StepProgress[]>([]);
+    const [pendingConfirmation, setPendingConfirmation] =
+        useState<PendingConfirmation | null>(null);
+    const [conversation, setConversation] = useState<ConversationTurn[]>([]);
+    // Read by queued queries, which start after the turns before them
+    const conversationRef = useRef<ConversationTurn[]>([]);
+    // The model's reply so far, while it streams
+    const [streamedText, setStreamedText] = useState("");
+    const [thinking, setThinking] = useState(false);
+    const [waiting, setWaiting] = useState(0);
+    const abortRef = useRef<AbortController | null>(null);
+    const queueRef = useRef<Promise<void>>(Promise.resolve());
+    const latestQueryRef = useRef(0);
+    // Bumped by cancel so that waiting queries are dropped
+    const cancelCountRef = useRef(0);
     const context = useContext(LangactActionContext);
 
-    const sendQueryToLLM = async (query: string) => {
-        if (!query.trim() || !context) return;
+    // Destructive actions wait here until the user answers the prompt
+    const confirmAction = (entry: ActionRegistryEntry, args: unknown[]) =>
+        new Promise<boolean>((resolve) => {
+            setPendingConfirmation({ entry, args, resolve });
+        });
+
+    const answerConfirmation = (confirmed: boolean) => {
+        pendingConfirmation?.resolve(confirmed);
+        setPendingConfirmation(null);
+    };
+
+    const recordTurn = React.useCallback(
+        (turn: ConversationTurn) => {
+            conversationRef.current = appendTurn(
+                conversationRef.current,
+                turn,
+                historyLimit
+            );
+            setConversation(conversationRef.current);
+        },
+        [historyLimit]
+    );
+
+    const resetConversation = () => {
+        conversationRef.current = [];
+        setConversation([]);
+        setPlanProgress([]);
+        setAnswer("");
+        setStatus("Started a new conversation.");
+    };
+
+    const undoLast = context?.undoLast;
+    const undoLastAction = React.useCallback(async () => {
+        if (!undoLast) return;
+        let message: string;
+        try {
+            const record = await undoLast();
+            message = record
+                ? `Undid ${record.actionId} with parameters: ${JSON.stringify(
+                      record.parameters
+                  )}`
+                : "Nothing to undo.";
+        } catch (err) {
+            message = `Undo failed: ${String(err)}`;
+        }
+        setStatus(message);
+        // The model should know the UI went back a step
+        recordTurn(createTurn("undo", message));
+    }, [undoLast, recordTurn]);
+
+    // Cmd/Ctrl+Z outside of text fields undoes the last AI action
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.shiftKey || e.key !== "z") {
+                return;
+            }
+            const target = e.target as HTMLElement | null;
+            if (
+                target &&
+                (target.isContentEditable ||
+                    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+            ) {
+                return;
+            }
+            e.preventDefault();
+            undoLastAction();
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [undoLastAction]);
+
+    // Cmd/Ctrl+K focuses the command bar from anywhere
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "k") {
+                e.preventDefault();
+                inputRef.current?.focus();
+                inputRef.current?.select();
+            }
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, []);
+
+    const fullActionMap = context?.llmActionMap;
+    const llmActionMap = useMemo(
+        () => fullActionMap && filterByScope(fullActionMap, scope),
+        [fullActionMap, scope]
+    );
+    const candidates = useMemo(
+        () =>
+            query.trim() && llmActionMap
+                ? rankActions(query, llmActionMap)
+                : [],
+        [query, llmActionMap]
+    );
+
+    const dryRun = !!context?.policy?.dryRun;
+
+    // Multi-step plans are listed step by step; single steps only get a
+    // status line
+    const showProgress = (progress: StepProgress[]) => {
+        if (progress.length > 1) setPlanProgress(progress);
+    };
+
+    const runCandidate = async (candidate: RankedAction, query: string) => {
+        if (!context) return;
+        setQuery("");
+        setSelectedIndex(-1);
+        setPlanProgress([]);
+        setAnswer("");
         setLoading(true);
-        setStatus("Thinking...");
         try {
-            const apiKey =
-                "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";
-            const siteUrl = window.location.origin;
-            const siteTitle = document.title;
-            const response = await fetch(
-                "https://openrouter.ai/api/v1/chat/completions",
+            const { progress } = await context.handle.execute(
+                candidate.id,
+                candidate.parameters,
                 {
-                    method: "POST",
-                    headers: {
-                        Authorization: `Bearer ${apiKey}`,
-                        "HTTP-Referer": siteUrl,
-                        "X-Title": siteTitle,
-                        "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({
-                        model: "openai/gpt-oss-20b:free",
-                        messages: [
-                            {
-                                role: "system",
-                                content:
-                                    'You are an AI assistant for a React app. You are given a semantic structure of the UI and a map of available actions. When the user asks for something, respond with a JSON object containing \'actionId\' and \'parameters\' (array). If no action is appropriate, respond with {"actionId": "none"}. Example: {"actionId": "action_0", "parameters": ["hello world"]}',
-                            },
-                            {
-                                role: "user",
-                                content: JSON.stringify({
-                                    query,
-                                    semanticStructure:
-                                        context.semanticStructure,
-                                    llmActionMap: context.llmActionMap,
-                                }),
-                            },
-                        ],
-                    }),
+                    query,
+                    confirm: confirmAction,
+                    onStart: (steps) => setStatus(describeStart(steps, dryRun)),
+                    onProgress: showProgress,
                 }
             );
-            if (!response.ok) {
-                setStatus("LLM API error: " + response.statusText);
-                setLoading(false);
-                return;
-            }
-            const data = await response.json();
-            // Try to extract the action id and parameters from the LLM's response
-            let actionId = "";
-            let parameters: any[] = [];
+            const outcome = describeResult(progress, dryRun);
+            if (outcome) setStatus(outcome);
+            recordTurn(createTurn(query, "", progress));
+        } catch (err) {
+            setStatus(
+                err instanceof Error ? err.message : "Error: " + String(err)
+            );
+        }
+        setLoading(false);
+    };
 
-            // Parse JSON response from LLM
-            if (
-                data.choices &&
-                data.choices[0] &&
-                data.choices[0].message &&
-                data.choices[0].message.content
-            ) {
-                try {
-                    const llmResponse = JSON.parse(
-                        data.choices[0].message.content.trim()
-                    );
-                    actionId = llmResponse.actionId || "";
-                    parameters = llmResponse.parameters || [];
-                } catch (parseError) {
-                    // Fallback: try to extract just action id if JSON parsing fails
-                    actionId = data.choices[0].message.content
-                        .trim()
-                        .replace(/\"/g, "");
+    // Cancels the model request in flight and any queries waiting for it
+    const cancel = React.useCallback(() => {
+        cancelCountRef.current++;
+        abortRef.current?.abort();
+    }, []);
+
+    // Escape cancels a pending model request from anywhere
+    useEffect(() => {
+        if (!thinking && waiting === 0) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (e.key === "Escape") cancel();
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [thinking, waiting, cancel]);
+
+    // Runs a query through the same pipeline as `useLangact().runCommand`,
+    // with the CommandBar's prompts and status lines hooked in
+    const runQuery = async (query: string) => {
+        if (!context) return;
+        const controller = new AbortController();
+        setLoading(true);
+        setStatus("Thinking...");
+        setStreamedText("");
+        setPlanProgress([]);
+        setAnswer("");
+        try {
+            const { steps, progress, declined, message, answer, verification } =
+                await context.handle.runCommand(query, {
+                    provider: provider ?? context.provider ?? defaultProvider,
+                    matchMode,
+                    contextBudget,
+                    scope,
+                    history: conversationRef.current,
+                    verify: verifyRounds,
+                    signal: controller.signal,
+                    confirm: confirmAction,
+                    // Cancellable while waiting for the model, not while
+                    // actions run
+                    onPlanning: (planning) => {
+                        abortRef.current = planning ? controller : null;
+                        setThinking(planning);
+                        setStreamedText("");
+                    },
+                    onToken: (token) => setStreamedText((t) => t + token),
+                    retry: {
+                        timeout,
+                        retries,
+                        onRetry: (attempt, err, delay) => {
+                            setStreamedText("");
+                            setStatus(
+                                `${
+                                    err instanceof Error
+                                        ? err.message
+                                        : String(err)
+                                }. Retrying in ${Math.round(
+                                    delay / 1000
+                                )}s (${attempt}/${retries})...`
+                            );
+                        },
+                    },
+                    onStart: (steps) => setStatus(describeStart(steps, dryRun)),
+                    onProgress: showProgress,
+                    onVerifyRound: (round) =>
+                        setStatus(
+                            `Checking the result (${round}/${verifyRounds})...`
+                        ),
+                });
+
+            if (steps.length === 0) {
+                if (answer) {
+                    setStatus("");
+                    setAnswer(answer);
+                    recordTurn(createTurn(query, answer));
+                    return;
                 }
+                const note =
+                    matchMode === "local"
+                        ? "No matching action found."
+                        : declined
+                        ? "No suitable action found for your request."
+                        : "LLM did not return a valid action id.";
+                setStatus(note);
+                recordTurn(createTurn(query, note));
+                return;
             }
-            setQuery("");
-
-            console.log("LLM Response:", {
-                actionId,
-                parameters,
-            });
 
-            if (
-                actionId &&
-                actionId !== "none" &&
-                context.actionRegistry[actionId]
-            ) {
+            recordTurn(createTurn(query, replyProse(message ?? ""), progress));
+            if (!verification) {
+                const outcome = describeResult(progress, dryRun);
+                if (outcome) setStatus(outcome);
+                return;
+            }
+            verification.turns.forEach(recordTurn);
+            setStatus(
+                verification.verified
+                    ? verification.message || "Done."
+                    : verification.message ||
+                          `Could not confirm the request was completed after ${verifyRounds} check${
+                              verifyRounds === 1 ? "" : "s"
+                          }.`
+            );
+        } catch (err) {
+            if (isAbortError(err)) {
                 setStatus(
-                    `Executing action: ${actionId} with parameters: ${JSON.stringify(
-                        parameters
-                    )}`
+                    controller.signal.reason === SUPERSEDED
+                        ? "Replaced by a newer query."
+                        : "Cancelled."
                 );
-                // Execute the action with parameters
-                try {
-                    context.actionRegistry[actionId].execute(...parameters);
-                } catch (err) {
-                    setStatus(`Action execution error: ${String(err)}`);
-                    setLoading(false);
-                    return;
-                }
-            } else if (actionId === "none") {
-                setStatus("No suitable action found for your request.");
             } else {
-                setStatus("LLM did not return a valid action id.");
+                setStatus(
+                    err instanceof Error ? err.message : "Error: " + String(err)
+                );
             }
-        } catch (err) {
-            setStatus("Error: " + String(err));
+        } finally {
+            if (abortRef.current === controller) abortRef.current = null;
+            setThinking(false);
+            setStreamedText("");
+            setLoading(false);
         }
-        setLoading(false);
+    };
+
+    const sendQuery = async (query: string) => {
+        if (!query.trim() || !context) return;
+        if (/^\/?undo$/i.test(query.trim())) {
+            setQuery("");
+            setPlanProgress([]);
+            setAnswer("");
+            await undoLastAction();
+            return;
+        }
+        if (/^\/(reset|new)$/i.test(query.trim())) {
+            setQuery("");
+            resetConversation();
+            return;
+        }
+        setQuery("");
+        setSelectedIndex(-1);
+        // Queries run one at a time, in order
+        const ticket = ++latestQueryRef.current;
+        const cancelCount = cancelCountRef.current;
+        if (whileBusy === "supersede") abortRef.current?.abort(SUPERSEDED);
+        setWaiting((n) => n + 1);
+        const turn = queueRef.current.then(() => {
+            setWaiting((n) => n - 1);
+            if (cancelCountRef.current !== cancelCount) return;
+            if (
+                whileBusy === "supersede" &&
+                ticket !== latestQueryRef.current
+            ) {
+                return;
+            }
+            return runQuery(query);
+        });
+        queueRef.current = turn.catch(() => {});
+        await turn;
     };
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        sendQueryToLLM(query);
+        const selected = candidates[selectedIndex];
+        if (selected) {
+            runCandidate(selected, query);
+        } else {
+            sendQuery(query);
+        }
+    };
+
+    const handleInputKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+            if (candidates.length === 0) return;
+            e.preventDefault();
+            const step = e.key === "ArrowDown" ? 1 : -1;
+            // -1 (nothing selected, Enter asks the LLM) is part of the cycle
+            const count = candidates.length + 1;
+            setSelectedIndex(
+                (index) => ((index + 1 + step + count) % count) - 1
+            );
+        } else if (e.key === "Escape") {
+            setQuery("");
+            setSelectedIndex(-1);
+        }
     };
 
     return (
-        <div className="command-bar">
+        // Left out of the scan: the model should not see or drive the bar
+        // itself, and its status updates are not changes an action made
+        <div className="command-bar" data-langact-ignore>
             <div className="search-container">
                 <div className="search-icon">
                     <svg
@@ -146,25 +499,166 @@ export const CommandBar: React.FC = () => {
                 </div>
                 <form onSubmit={handleSubmit}>
                     <input
+                        ref={inputRef}
                         type="text"
                         value={query}
-                        onChange={(e) => setQuery(e.target.value)}
+                        onChange={(e) => {
+                            setQuery(e.target.value);
+                            setSelectedIndex(matchMode === "llm" ? -1 : 0);
+                        }}
+                        onKeyDown={handleInputKeyDown}
                         placeholder={
-                            loading
+                            thinking
                                 ? "Waiting for AI..."
                                 : "Ask the AI anything..."
                         }
                         aria-label="AI Command Input"
+                        aria-controls="command-bar-candidates"
                         className="search-input"
-                        disabled={loading}
                     />
                 </form>
-                {query && !loading && (
+                {thinking && (
+                    <button
+                        type="button"
+                        className="cancel-button"
+                        onClick={cancel}
+                        title="Cancel the request (Esc)"
+                    >
+                        Cancel
+                        {waiting > 0 && ` (+${waiting} queued)`}
+                    </button>
+                )}
+                {query && !thinking && (
+                    <div className="search-hint">
+                        <kbd>↵</kbd>{" "}
+                        {candidates[selectedIndex] ? "to run" : "to send"}
+                    </div>
+                )}
+                {!query && !thinking && (
                     <div className="search-hint">
-                        <kbd>↵</kbd> to send
+                        <kbd>⌘K</kbd>
                     </div>
                 )}
             </div>
+            {query && !loading && candidates.length > 0 && (
+                <div className="actions-panel">
+                    <div className="actions-header">
+                        <span>Matching actions</span>
+                        <span className="actions-count">
+                            {candidates.length}
+                        </span>
+                    </div>
+                    <div
+                        className="actions-list"
+                        id="command-bar-candidates"
+                        role="listbox"
+                    >
+                        {candidates.map((candidate, index) => (
+                            <div
+                                key={candidate.id}
+                                role="option"
+                                aria-selected={index === selectedIndex}
+                                className={`action-item${
+                                    index === selectedIndex ? " selected" : ""
+                                }`}
+                                onMouseEnter={() => setSelectedIndex(index)}
+                                onMouseDown={(e) => {
+                                    e.preventDefault();
+                                    runCandidate(candidate, query);
+                                }}
+                            >
+                                <div className="action-content">
+                                    <div className="action-id">
+                                        {candidate.id}
+                                    </div>
+                                    <div className="action-description">
+                                        {candidate.action.description}
+                                    </div>
+                                </div>
+                                {index === selectedIndex && (
+                                    <div className="action-shortcut">
+                                        <kbd>↵</kbd>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            {conversation.length > 0 && (
+                <div className="conversation-panel">
+                    <div className="actions-header">
+                        <span>
+                            Conversation{" "}
+                            <span className="actions-count">
+                                {conversation.length}/{historyLimit}
+                            </span>
+                        </span>
+                        <button
+                            type="button"
+                            className="conversation-reset"
+                            onClick={resetConversation}
+                            disabled={loading}
+                        >
+                            New conversation
+                        </button>
+                    </div>
+                    <ol className="conversation-turns">
+                        {conversation.map((turn, index) => (
+                            <li key={index} className="conversation-turn">
+                                <div className="conversation-query">
+                                    {turn.verification
+                                        ? "Checking the result"
+                                        : turn.query}
+                                </div>
+                                {turn.reply && (
+                                    <div className="conversation-reply">
+                                        {turn.reply}
+                                    </div>
+                                )}
+                                {turn.actions.length > 0 && (
+                                    <ol className="plan-steps">
+                                        {turn.actions.map((action, i) => (
+                                            <li
+                                                key={i}
+                                                className={`plan-step plan-step-${action.status}`}
+                                            >
+                                                <span className="plan-step-status">
+                                                    {action.status}
+                                                </span>
+                                                <span className="plan-step-label">
+                                                    {action.description ||
+                                                        action.actionId}
+                                                </span>
+                                                {action.error && (
+                                                    <span className="plan-step-error">
+                                                        {action.error}
+                                                    </span>
+                                                )}
+                                                {action.changes && (
+                                                    <span
+                                                        className="plan-step-changes"
+                                                        title={describeChanges(
+                                                            action.changes
+                                                        ).join("\n")}
+                                                    >
+                                                        {action.changes.length}{" "}
+                                                        UI change
+                                                        {action.changes
+                                                            .length === 1
+                                                            ? ""
+                                                            : "s"}
+                                                    </span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                )}
+                            </li>
+                        ))}
+                    </ol>
+                </div>
+            )}
             {status && (
                 <div className="status-message">
                     <div className="status-icon">
@@ -187,6 +681,83 @@ export const CommandBar: React.FC = () => {
                     {status}
                 </div>
             )}
+            {answer && (
+                <div className="command-answer" role="status">
+                    {answer}
+                </div>
+            )}
+            {streamedText && (
+                <div className="stream-output" aria-live="polite">
+                    {streamedText}
+                </div>
+            )}
+            {pendingConfirmation && (
+                <div
+                    className="confirm-prompt"
+                    role="alertdialog"
+                    aria-label="Confirm action"
+                >
+                    <div className="confirm-title">
+                        Run this destructive action?
+                    </div>
+                    <div className="confirm-target">
+                        {pendingConfirmation.entry.description}
+                    </div>
+                    <div className="confirm-detail">
+                        Target:{" "}
+                        <code>
+                            {pendingConfirmation.entry.component}
+                            {pendingConfirmation.entry.semanticId}
+                        </code>{" "}
+                        at {pendingConfirmation.entry.path || "(not in tree)"}
+                    </div>
+                    <div className="confirm-detail">
+                        Arguments:{" "}
+                        <code>{JSON.stringify(pendingConfirmation.args)}</code>
+                    </div>
+                    <div className="confirm-buttons">
+                        <button
+                            type="button"
+                            className="confirm-cancel"
+                            onClick={() => answerConfirmation(false)}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            className="confirm-run"
+                            onClick={() => answerConfirmation(true)}
+                            autoFocus
+                        >
+                            Run
+                        </button>
+                    </div>
+                </div>
+            )}
+            {planProgress.length > 0 && (
+                <ol className="plan-steps">
+                    {planProgress.map((progress, index) => (
+                        <li
+                            key={index}
+                            className={`plan-step plan-step-${progress.status}`}
+                        >
+                            <span className="plan-step-status">
+                                {progress.status}
+                            </span>
+                            <span className="plan-step-label">
+                                {progress.step.description ||
+                                    progress.resolvedId ||
+                                    progress.step.actionId}
+                            </span>
+                            {progress.error && (
+                                <span className="plan-step-error">
+                                    {progress.error}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
         </div>
     );
 };
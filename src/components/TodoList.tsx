@@ -1,15 +1,27 @@
 // src/components/TodoList.tsx
 import React, { useState } from "react";
+import { useAiAction } from "../langact/useAiAction";
+import { useAiState } from "../langact/useAiState";
 
 interface Task {
     id: number;
     title: string;
 }
 
-const TaskItem: React.FC<{ task: Task; onDelete: (id: number) => void }> = ({
-    task,
-    onDelete,
-}) => {
+const TaskItem: React.FC<{
+    task: Task;
+    index: number;
+    onDelete: (id: number) => void;
+    onRestore: (task: Task, index: number) => void;
+}> = ({ task, index, onDelete, onRestore }) => {
+    const deleteAction = useAiAction({
+        id: `tasks.delete.${task.id}`,
+        description: `Delete the task "${task.title}"`,
+        handler: () => onDelete(task.id),
+        destructive: true,
+        undo: () => onRestore(task, index),
+    });
+
     return (
         <div className="task-item">
             <div className="task-checkbox">
@@ -32,7 +44,7 @@ const TaskItem: React.FC<{ task: Task; onDelete: (id: number) => void }> = ({
             <div className="task-content">
                 <span className="task-title">{task.title}</span>
             </div>
-            <button onClick={() => onDelete(task.id)} className="task-delete">
+            <button {...deleteAction.props} className="task-delete">
                 <svg
                     width="14"
                     height="14"
@@ -71,6 +83,24 @@ export const TodoList = () => {
         setTasks((prev) => prev.filter((task) => task.id !== id));
     };
 
+    const handleRestoreTask = (task: Task, index: number) => {
+        setTasks((prev) => [
+            ...prev.slice(0, index),
+            task,
+            ...prev.slice(index),
+        ]);
+    };
+
+    useAiState("tasks", tasks, {
+        description: "The task list, in display order",
+    });
+
+    const addTaskAction = useAiAction({
+        id: "tasks.add",
+        description: "Add the text currently in the new task input as a task",
+        handler: handleAddTask,
+    });
+
     return (
         <div className="todo-app">
             <div className="todo-header">
@@ -122,7 +152,7 @@ export const TodoList = () => {
                         placeholder="Add a new task..."
                         onKeyDown={(e) => e.key === "Enter" && handleAddTask()}
                     />
-                    <button onClick={handleAddTask} className="add-button">
+                    <button {...addTaskAction.props} className="add-button">
                         <svg
                             width="14"
                             height="14"
@@ -166,11 +196,13 @@ export const TodoList = () => {
                     </div>
                 ) : (
                     <div className="tasks-list">
-                        {tasks.map((task) => (
+                        {tasks.map((task, index) => (
                             <TaskItem
                                 key={task.id}
                                 task={task}
+                                index={index}
                                 onDelete={handleDeleteTask}
+                                onRestore={handleRestoreTask}
                             />
                         ))}
                     </div>
@@ -1,48 +1,95 @@
-/**
- * Converts a React Fiber node into a simplified, pruned component tree object.
- * The output object contains only `name`, `props`, and an array of `children`.
- *
- * @param {object} fiberNode - The root of the React Fiber tree to process.
- * @returns {object | null} A simplified tree object, or null if the input is invalid.
- */
 import React, { useEffect } from "react";
 import type {} from "react";
+import type { LLMProvider } from "./providers";
+import type { ParametersSchema } from "./schema";
+import type { HostElementInfo } from "./events";
+import { applyPolicy, type ActionPolicy } from "./policy";
+import { executeViaDom, type ExecutionMode } from "./dom";
+import {
+    createExecutionJournal,
+    type ExecutionRecord,
+    type UndoHandler,
+} from "./history";
+import {
+    forEachChangedFiber,
+    isCommitHookActive,
+    subscribeToCommits,
+} from "./commits";
+import { createLLMActionMap, createScanCache, scanFiberTree } from "./scan";
+import { findContentFiber } from "./fiberRoot";
+import {
+    attachScopes,
+    mergeScopeState,
+    mergeScopes,
+    type ScopeHandle,
+} from "./scopes";
+import type { AiStateEntry, AiStateMap, ExposeStateOption } from "./state";
+import { redactSnapshot, type RedactionOptions } from "./redaction";
+import {
+    createLangactHandle,
+    type LangactHandle,
+    type LangactHandleSource,
+} from "./handle";
 
 // Types for Fiber Node (partial, for our use)
-type FiberNode = {
+export type FiberNode = {
     elementType?: any;
     props?: Record<string, any>;
     memoizedProps?: Record<string, any>;
     pendingProps?: Record<string, any>;
+    key?: string | null;
+    memoizedState?: unknown;
+    stateNode?: unknown;
     child?: FiberNode | null;
     sibling?: FiberNode | null;
+    /** Parent; may point into either tree. */
+    return?: FiberNode | null;
+    /** The same fiber in the other (current / work-in-progress) tree. */
+    alternate?: FiberNode | null;
 };
 
-type ComponentTree = {
-    name: string;
-    props: { [key: string]: any };
-    children: ComponentTree[];
-};
-
-type SemanticStructure = {
+export type SemanticStructure = {
     component: string;
+    /**
+     * Handlers on the element. Compaction for the model may keep only the
+     * event of each.
+     */
     actions?: Array<{
         event: string;
-        handler: string;
-        path: string;
+        handler?: string;
+        path?: string;
     }>;
     children?: SemanticStructure[];
     text?: string;
+    /** Accessible name of an actionable element. */
+    label?: string;
+    /** Text of the nearest labelled ancestor or sibling. */
+    context?: string;
     className?: string;
     id?: string;
     type?: string;
     value?: any;
     placeholder?: string;
     href?: string;
+    /** Props opted in through `exposeState`. */
+    state?: Record<string, unknown>;
+    /** `useState`/`useReducer` values opted in through `exposeState`. */
+    hooks?: unknown[];
     [key: string]: any;
 };
 
-type ActionRegistryEntry = {
+// Action registered explicitly through `useAiAction`
+export type ManualAction = {
+    id: string;
+    description: string;
+    event: string;
+    parameterSchema: ParametersSchema;
+    destructive?: boolean;
+    undo?: UndoHandler;
+    execute: (...args: any[]) => any;
+};
+
+export type ActionRegistryEntry = {
     id: string;
     component: string;
     event: string;
@@ -51,15 +98,32 @@ type ActionRegistryEntry = {
     identifyingProps: Record<string, any>;
     description: string;
     execute: (...args: any[]) => any;
+    source: "auto" | "manual";
+    parameterSchema: ParametersSchema;
+    /** Needs user confirmation before running; see `ActionPolicy`. */
+    destructive?: boolean;
+    /** Inverse handler; makes journal records of this action undoable. */
+    undo?: UndoHandler;
+    /** Set for handlers on host elements; `execute` then takes simple args. */
+    element?: HostElementInfo;
+    /** The element itself, or the first DOM node rendered by a component. */
+    domNode?: Element | null;
+    /** Accessible name: aria-label, descendant text, title or placeholder. */
+    label?: string;
+    /** Text of the nearest labelled ancestor or sibling. */
+    context?: string;
+    /** Nested scope the action came from, e.g. "todo" or "todo.list". */
+    scope?: string;
     metadata: {
         functionName: string;
-        toString: string;
+        /** Handler source; only kept with `redaction.handlerSource`. */
+        source?: string;
     };
 };
 
-type ActionRegistry = Record<string, ActionRegistryEntry>;
+export type ActionRegistry = Record<string, ActionRegistryEntry>;
 
-type LLMActionMap = Record<
+export type LLMActionMap = Record<
     string,
     {
         description: string;
@@ -69,12 +133,54 @@ type LLMActionMap = Record<
         semanticId: string;
         identifyingProps: Record<string, any>;
         parameters: string[];
+        parameterSchema: ParametersSchema;
+        destructive: boolean;
         signature: string;
+        /** Handler source, sent only with `redaction.handlerSource`. */
+        source?: string;
+        label?: string;
+        context?: string;
+        scope?: string;
     }
 >;
 
 interface LangactProps {
     children: React.ReactElement;
+    /** LLM provider used by CommandBar instances rendered inside this tree. */
+    provider?: LLMProvider;
+    /** Allow/deny lists, destructive-action confirmation and dry-run. */
+    policy?: ActionPolicy;
+    /** Maximum number of execution records kept. Defaults to 100. */
+    historyLimit?: number;
+    /**
+     * "dom" highlights the target element and dispatches real DOM events;
+     * "handler" (default) calls handlers directly.
+     */
+    executionMode?: ExecutionMode;
+    /**
+     * Namespace of this tree's actions inside an enclosing <Langact>:
+     * `scope="todo"` exposes `tasks.add` there as `todo.tasks.add`.
+     */
+    scope?: string;
+    /** Keep this tree's actions out of enclosing <Langact> scopes. */
+    isolated?: boolean;
+    /**
+     * Components whose props or hook state the model may read, by name:
+     * `{ TaskItem: { props: ["task"] }, TodoList: { hooks: true } }`.
+     */
+    exposeState?: ExposeStateOption;
+    /**
+     * Extra sensitive fields, custom rules and handler source. Applied before
+     * anything is published, so pass a stable object.
+     */
+    redaction?: RedactionOptions;
+    /**
+     * Publish the registry, action map and structure on `window` as
+     * `reactActionRegistry`, `reactLLMActionMap` and `reactSemanticStructure`.
+     */
+    debug?: boolean;
+    /** Receives the same handle `useLangact()` returns. */
+    ref?: React.Ref<LangactHandle>;
 }
 
 // Context types
@@ -82,367 +188,430 @@ interface LangactActionContextType {
     actionRegistry: ActionRegistry;
     llmActionMap: LLMActionMap;
     semanticStructure: SemanticStructure | null;
+    provider?: LLMProvider;
+    policy?: ActionPolicy;
+    registerAction?: (action: ManualAction) => () => void;
+    /** Values published with `useAiState`, by key. */
+    state: AiStateMap;
+    registerState?: (key: string, entry: AiStateEntry) => () => void;
+    /** Latest registry, independent of the render the caller closed over. */
+    getActionRegistry: () => ActionRegistry;
+    /** Resolves after the next rebuild, or with the current registry on timeout. */
+    waitForRegistryUpdate: (timeoutMs?: number) => Promise<ActionRegistry>;
+    /** Execution journal, oldest first. */
+    history: ExecutionRecord[];
+    /** Runs a registry entry and records it in the journal. */
+    invokeAction: (
+        entry: ActionRegistryEntry,
+        args: unknown[],
+        meta?: { query?: string }
+    ) => Promise<unknown>;
+    /** Undoes the most recent undoable action, if any. */
+    undoLast: () => Promise<ExecutionRecord | undefined>;
+    /** Name of this scope; undefined for an unnamed <Langact>. */
+    scope?: string;
+    /** Lets a nested <Langact> contribute its actions to this one. */
+    registerScope?: (scope: ScopeHandle) => () => void;
+    /** Programmatic API; see `useLangact`. */
+    handle: LangactHandle;
 }
 
 export const LangactActionContext = React.createContext<
     LangactActionContextType | undefined
 >(undefined);
 
-function fiberToComponentTree(
-    fiberNode: FiberNode | null
-): ComponentTree | null {
-    // Base case: if the node is null, we've reached the end of a branch.
-    if (!fiberNode) {
+// Serialised model-facing view, used to skip state updates when a re-scan
+// found nothing new. Null when it cannot be serialised, which always counts
+// as new.
+function snapshotOf(
+    llmActionMap: LLMActionMap,
+    semanticStructure: SemanticStructure | null,
+    state: AiStateMap
+): string | null {
+    try {
+        return JSON.stringify([llmActionMap, semanticStructure, state]);
+    } catch {
         return null;
     }
-
-    // Helper to get a readable name from the fiber's 'elementType'.
-    const getDisplayName = (node: FiberNode): string => {
-        const { elementType } = node;
-        if (typeof elementType === "string") {
-            return elementType; // e.g., 'div'
-        }
-        if (typeof elementType === "function") {
-            return elementType.displayName || elementType.name || "Component";
-        }
-        // For forwarded refs, memo, etc., the component is often in `type` or `render`.
-        if (typeof elementType === "object" && elementType !== null) {
-            const render = elementType.render || elementType.type;
-            if (render) {
-                return render.displayName || render.name || "ComplexComponent";
-            }
-        }
-        return "Unknown";
-    };
-
-    // 1. Get the component's name and props.
-    const name = getDisplayName(fiberNode);
-
-    // Extract props more comprehensively, including functions
-    const props: { [key: string]: any } = {};
-
-    // Check multiple possible locations for props
-    const propsSource =
-        fiberNode.props ||
-        fiberNode.memoizedProps ||
-        fiberNode.pendingProps ||
-        {};
-
-    // Copy all props, including functions
-    for (const key in propsSource) {
-        if (propsSource.hasOwnProperty(key)) {
-            const value = propsSource[key];
-
-            // Include all prop types, including functions
-            if (typeof value === "function") {
-                // For functions, store metadata instead of the actual function
-                (props as any)[key] = {
-                    __type: "function",
-                    __name: value.name || "anonymous",
-                    __toString: value.toString(),
-                };
-            } else if (value !== null && typeof value === "object") {
-                // For objects (including React elements), create a safe representation
-                (props as any)[key] = {
-                    __type: "object",
-                    __constructor: value.constructor?.name || "Object",
-                    __keys: Object.keys(value),
-                };
-            } else {
-                // For primitives, store as-is
-                (props as any)[key] = value;
-            }
-        }
-    }
-
-    // 2. Process all children by traversing the linked list (child -> sibling).
-    // This creates the clean `children` array you requested, without a `sibling` property.
-    const children = [];
-    let currentChildNode = fiberNode.child;
-
-    while (currentChildNode) {
-        // Recursively convert the child fiber node.
-        const childComponent = fiberToComponentTree(currentChildNode);
-        if (childComponent) {
-            children.push(childComponent);
-        }
-        // Move to the next child in the linked list.
-        currentChildNode = currentChildNode.sibling;
-    }
-
-    // 3. Assemble and return the final JavaScript object for this node.
-    return {
-        name,
-        props,
-        children,
-    };
-}
-
-/**
- * Converts a detailed component tree into a concise semantic representation for LLMs.
- * Focuses on actionable elements and their onClick handlers.
- *
- * @param {object} componentTree - The detailed component tree from fiberToComponentTree
- * @returns {object} A concise semantic structure
- */
-function createSemanticStructure(
-    componentTree: ComponentTree | null
-): SemanticStructure | null {
-    if (!componentTree) return null;
-
-    const semantic: SemanticStructure = {
-        component: componentTree.name,
-        actions: [],
-        children: [],
-    };
-
-    // Extract semantic information from props
-    const props = componentTree.props || {};
-
-    // Add text content if it's a text element or has meaningful text props
-    if (props.children && typeof props.children === "string") {
-        (semantic as any).text = props.children;
-    }
-
-    // Add class/styling info for context
-    if (props.className) {
-        (semantic as any).className = props.className;
-    }
-
-    // Extract actionable props (onClick, onSubmit, onChange, etc.)
-    Object.keys(props).forEach((key) => {
-        const prop = props[key];
-
-        // Check for event handlers
-        if (key.startsWith("on") && prop && prop.__type === "function") {
-            (semantic.actions as Array<any>).push({
-                event: key,
-                handler: prop.__name || "anonymous",
-                path: `props.${key}`,
-            });
-        }
-
-        // Add other meaningful props (but keep it concise)
-        if (["id", "type", "value", "placeholder", "href"].includes(key)) {
-            (semantic as any)[key] = prop;
-        }
-    });
-
-    // Process children recursively
-    if (componentTree.children && componentTree.children.length > 0) {
-        componentTree.children.forEach((child) => {
-            const childSemantic = createSemanticStructure(child);
-            if (childSemantic) {
-                (semantic.children as Array<any>).push(childSemantic);
-            }
-        });
-    }
-
-    // Clean up empty arrays to keep it concise
-    if (semantic.actions && semantic.actions.length === 0)
-        delete semantic.actions;
-    if (semantic.children && semantic.children.length === 0)
-        delete semantic.children;
-
-    return semantic;
-}
-
-/**
- * Creates a hashmap of all actionable functions from the fiber tree for LLM access
- * @param {object} fiberNode - The root fiber node
- * @returns {object} A hashmap with function IDs as keys and executable functions as values
- */
-function createActionRegistry(fiberNode: FiberNode | null): ActionRegistry {
-    const actionRegistry: ActionRegistry = {};
-    let actionId = 0;
-    const componentCounts: Record<string, number> = {};
-
-    function traverseAndExtractActions(
-        node: FiberNode | null,
-        path: string[] = []
-    ): void {
-        if (!node) return;
-
-        // Get the component name for context
-        const getDisplayName = (fiberNode: FiberNode): string => {
-            const { elementType } = fiberNode;
-            if (typeof elementType === "string") {
-                return elementType;
-            }
-            if (typeof elementType === "function") {
-                return (
-                    elementType.displayName || elementType.name || "Component"
-                );
-            }
-            return "Unknown";
-        };
-
-        const componentName = getDisplayName(node);
-
-        // Create unique identifier for repeated components
-        const componentKey = path.join(">") + ">" + componentName;
-        componentCounts[componentKey] =
-            (componentCounts[componentKey] || 0) + 1;
-        const instanceNumber = componentCounts[componentKey] - 1;
-
-        // Enhanced path with instance info
-        const instanceIdentifier =
-            instanceNumber > 0
-                ? `${componentName}[${instanceNumber}]`
-                : componentName;
-        const currentPath = [...path, instanceIdentifier];
-
-        // Check all possible prop sources
-        const propsSource =
-            node.props || node.memoizedProps || node.pendingProps || {};
-
-        // Extract identifying props for better differentiation
-        const identifyingProps: Record<string, any> = {};
-        ["id", "num", "index", "value", "name", "className"].forEach((prop) => {
-            if (propsSource[prop] !== undefined) {
-                identifyingProps[prop] = propsSource[prop];
-            }
-        });
-
-        // Create a semantic identifier based on props
-        let semanticId = "";
-        if (identifyingProps.num !== undefined) {
-            semanticId = `[num=${identifyingProps.num}]`;
-        } else if (identifyingProps.index !== undefined) {
-            semanticId = `[index=${identifyingProps.index}]`;
-        } else if (identifyingProps.id) {
-            semanticId = `[id=${identifyingProps.id}]`;
-        } else if (identifyingProps.key) {
-            semanticId = `[key=${identifyingProps.key}]`;
-        } else if (instanceNumber > 0) {
-            semanticId = `[instance=${instanceNumber}]`;
-        }
-
-        // Extract event handlers
-        Object.keys(propsSource).forEach((propKey) => {
-            const propValue = propsSource[propKey];
-
-            if (propKey.startsWith("on") && typeof propValue === "function") {
-                const functionId = `action_${actionId++}`;
-
-                // Enhanced description with semantic information
-                let description = `${propKey} handler on ${componentName}`;
-                if (semanticId) {
-                    description += ` ${semanticId}`;
-                }
-                description += ` at ${currentPath.join(" > ")}`;
-
-                actionRegistry[functionId] = {
-                    id: functionId,
-                    component: componentName,
-                    event: propKey,
-                    path: currentPath.join(" > "),
-                    semanticId: semanticId,
-                    identifyingProps: identifyingProps,
-                    description: description,
-                    execute: propValue,
-                    metadata: {
-                        functionName: propValue.name || "anonymous",
-                        toString: propValue.toString(),
-                    },
-                };
-            }
-        });
-
-        // Traverse children
-        let child = node.child;
-        while (child) {
-            traverseAndExtractActions(child, currentPath);
-            child = child.sibling;
-        }
-    }
-
-    traverseAndExtractActions(fiberNode);
-    return actionRegistry;
-}
-
-/**
- * Creates a simplified action map for LLM consumption
- * @param {object} actionRegistry - The full action registry
- * @returns {object} Simplified action descriptions for LLM
- */
-function createLLMActionMap(actionRegistry: ActionRegistry): LLMActionMap {
-    const llmActionMap: LLMActionMap = {};
-    Object.keys(actionRegistry).forEach((actionId) => {
-        const action = actionRegistry[actionId];
-
-        // Extract function parameters from toString
-        const functionString = action.metadata.toString;
-        const paramMatch = functionString.match(/\(([^)]*)\)/);
-        const paramString = paramMatch ? paramMatch[1].trim() : "";
-        const parameters = paramString
-            ? paramString.split(",").map((p) => p.trim())
-            : [];
-
-        llmActionMap[actionId] = {
-            description: action.description,
-            component: action.component,
-            event: action.event,
-            path: action.path,
-            semanticId: action.semanticId,
-            identifyingProps: action.identifyingProps,
-            parameters: parameters,
-            signature: `${action.metadata.functionName}(${paramString})`,
-        };
-    });
-    return llmActionMap;
 }
 
-export function Langact({ children }: LangactProps) {
+export function Langact({
+    children,
+    provider,
+    policy,
+    historyLimit = 100,
+    executionMode = "handler",
+    scope,
+    isolated = false,
+    exposeState,
+    redaction,
+    debug = false,
+    ref,
+}: LangactProps) {
+    // Set when this <Langact> is nested in another
+    const parent = React.useContext(LangactActionContext);
     const [actionRegistry, setActionRegistry] = React.useState<ActionRegistry>(
         {}
     );
     const [llmActionMap, setLLMActionMap] = React.useState<LLMActionMap>({});
     const [semanticStructure, setSemanticStructure] =
         React.useState<SemanticStructure | null>(null);
+    const [state, setState] = React.useState<AiStateMap>({});
     const containerRef = React.useRef<HTMLDivElement>(null);
     const updateTimeoutRef = React.useRef<number | undefined>(undefined);
+    // Set on unmount, so an action or commit that finishes later does not
+    // schedule a rescan of a tree that is gone
+    const unmountedRef = React.useRef(false);
+    const manualActionsRef = React.useRef(new Map<string, ManualAction>());
+    const stateEntriesRef = React.useRef(new Map<string, AiStateEntry>());
+    const stateRef = React.useRef<AiStateMap>({});
+    const actionRegistryRef = React.useRef<ActionRegistry>({});
+    const updateListenersRef = React.useRef(
+        new Set<(registry: ActionRegistry) => void>()
+    );
+    const semanticStructureRef = React.useRef<SemanticStructure | null>(null);
+    const scanCache = React.useMemo(createScanCache, []);
+    const scannedRootRef = React.useRef<FiberNode | null>(null);
+    const snapshotRef = React.useRef<string | null>(null);
+    // What the model sees, replaced only when it changes
+    const publishedRef = React.useRef<{
+        llmActionMap: LLMActionMap;
+        semanticStructure: SemanticStructure | null;
+        state: AiStateMap;
+    }>({ llmActionMap: {}, semanticStructure: null, state: {} });
+    const changeListenersRef = React.useRef(new Set<() => void>());
+    const scopesRef = React.useRef(new Set<ScopeHandle>());
+    // Created once; a new limit trims the records instead of losing them
+    const [journal] = React.useState(() =>
+        createExecutionJournal(historyLimit)
+    );
+    const [history, setHistory] = React.useState<ExecutionRecord[]>([]);
+
+    useEffect(() => journal.subscribe(setHistory), [journal]);
+    useEffect(() => journal.setLimit(historyLimit), [journal, historyLimit]);
+    const [manualActionsVersion, setManualActionsVersion] = React.useState(0);
+    const [stateVersion, setStateVersion] = React.useState(0);
+    // Compared by content, so an inline object does not rescan every render
+    const exposeStateKey = JSON.stringify(exposeState ?? null);
+    const exposed = React.useMemo<ExposeStateOption | undefined>(
+        () => JSON.parse(exposeStateKey) ?? undefined,
+        [exposeStateKey]
+    );
+
+    const registerAction = React.useCallback(
+        (action: ManualAction) => {
+            const manualActions = manualActionsRef.current;
+            if (manualActions.has(action.id)) {
+                console.warn(`Duplicate useAiAction id "${action.id}"`);
+            }
+            manualActions.set(action.id, action);
+            // Cached entries were matched against the previous manual actions
+            scanCache.clear();
+            setManualActionsVersion((version) => version + 1);
+            return () => {
+                if (manualActions.get(action.id) === action) {
+                    manualActions.delete(action.id);
+                    scanCache.clear();
+                    setManualActionsVersion((version) => version + 1);
+                }
+            };
+        },
+        [scanCache]
+    );
+
+    const registerState = React.useCallback(
+        (key: string, entry: AiStateEntry) => {
+            const entries = stateEntriesRef.current;
+            if (entries.has(key)) {
+                console.warn(`Duplicate useAiState key "${key}"`);
+            }
+            entries.set(key, entry);
+            setStateVersion((version) => version + 1);
+            return () => {
+                if (entries.get(key) === entry) {
+                    entries.delete(key);
+                    setStateVersion((version) => version + 1);
+                }
+            };
+        },
+        []
+    );
+
+    const getActionRegistry = React.useCallback(
+        () => actionRegistryRef.current,
+        []
+    );
 
     const updateActionMaps = React.useCallback(() => {
-        // @ts-ignore
-        const fiberRoot = (children as any)._owner?.child;
+        const fiberRoot = containerRef.current
+            ? findContentFiber(containerRef.current)
+            : null;
         if (!fiberRoot) {
             console.warn("No fiber root found for children");
+            snapshotRef.current = null;
+            actionRegistryRef.current = {};
+            semanticStructureRef.current = null;
+            stateRef.current = {};
+            publishedRef.current = {
+                llmActionMap: {},
+                semanticStructure: null,
+                state: {},
+            };
             setActionRegistry({});
             setLLMActionMap({});
             setSemanticStructure(null);
+            setState({});
+            changeListenersRef.current.forEach((listener) => listener());
             return;
         }
-        // Create the component tree and semantic structure
-        const componentTree = fiberToComponentTree(fiberRoot);
-        const newSemanticStructure = createSemanticStructure(componentTree);
-        setSemanticStructure(newSemanticStructure);
-        // Create the action registry and LLM action map
-        const newActionRegistry = createActionRegistry(fiberRoot);
-        const newLLMActionMap = createLLMActionMap(newActionRegistry);
-        setActionRegistry(newActionRegistry);
-        setLLMActionMap(newLLMActionMap);
-        // Optionally expose for debugging
-        (window as any).reactActionRegistry = newActionRegistry;
-        (window as any).reactLLMActionMap = newLLMActionMap;
-        (window as any).reactSemanticStructure = newSemanticStructure;
-    }, [children]);
+        // Without commit notifications nothing would invalidate the cache
+        const cache = isCommitHookActive() ? scanCache : undefined;
+        const { semanticStructure: scannedStructure, actionRegistry } =
+            scanFiberTree(
+                fiberRoot,
+                Array.from(manualActionsRef.current.values()),
+                cache,
+                { exposeState: exposed, redaction }
+            );
+        scannedRootRef.current = fiberRoot;
+        // Nested scopes were skipped by the scan; merge what they found
+        const scopes = Array.from(scopesRef.current);
+        const newActionRegistry = applyPolicy(
+            mergeScopes(actionRegistry, scopes),
+            policy
+        );
+        // Everything below is what the model, the handle and enclosing
+        // scopes see, so custom rules apply before any of it is kept
+        const {
+            llmActionMap: newLLMActionMap,
+            semanticStructure: newSemanticStructure,
+            state: newState,
+        } = redactSnapshot(
+            {
+                llmActionMap: createLLMActionMap(newActionRegistry),
+                semanticStructure: attachScopes(scannedStructure, scopes),
+                state: mergeScopeState(
+                    Object.fromEntries(stateEntriesRef.current),
+                    scopes
+                ),
+            },
+            redaction
+        );
+        actionRegistryRef.current = newActionRegistry;
+        semanticStructureRef.current = newSemanticStructure;
+        stateRef.current = newState;
+        // Setting state re-renders this component, which commits and would
+        // schedule another scan. Handlers are read through refs, so state
+        // only needs to change when what the model sees does.
+        const snapshot = snapshotOf(
+            newLLMActionMap,
+            newSemanticStructure,
+            newState
+        );
+        if (snapshot === null || snapshot !== snapshotRef.current) {
+            snapshotRef.current = snapshot;
+            publishedRef.current = {
+                llmActionMap: newLLMActionMap,
+                semanticStructure: newSemanticStructure,
+                state: newState,
+            };
+            setSemanticStructure(newSemanticStructure);
+            setState(newState);
+            setActionRegistry(newActionRegistry);
+            setLLMActionMap(newLLMActionMap);
+            changeListenersRef.current.forEach((listener) => listener());
+        }
+        updateListenersRef.current.forEach((listener) =>
+            listener(newActionRegistry)
+        );
+        if (debug) {
+            (window as any).reactActionRegistry = newActionRegistry;
+            (window as any).reactLLMActionMap = newLLMActionMap;
+            (window as any).reactSemanticStructure = newSemanticStructure;
+        }
+    }, [policy, scanCache, debug, exposed, redaction]);
 
     // Debounced update function to avoid too frequent re-analysis
     const debouncedUpdate = React.useCallback(() => {
+        if (unmountedRef.current) return;
         if (updateTimeoutRef.current) {
-            clearTimeout(updateTimeoutRef.current);
+            window.clearTimeout(updateTimeoutRef.current);
         }
-        updateTimeoutRef.current = setTimeout(updateActionMaps, 100); // 100ms debounce
+        updateTimeoutRef.current = window.setTimeout(updateActionMaps, 100); // 100ms debounce
     }, [updateActionMaps]);
 
+    // Lets registerScope stay stable while the update function changes
+    const debouncedUpdateRef = React.useRef(debouncedUpdate);
+    useEffect(() => {
+        debouncedUpdateRef.current = debouncedUpdate;
+    }, [debouncedUpdate]);
+
+    const registerScope = React.useCallback((handle: ScopeHandle) => {
+        const scopes = scopesRef.current;
+        scopes.add(handle);
+        const unsubscribe = handle.subscribe(() =>
+            debouncedUpdateRef.current()
+        );
+        debouncedUpdateRef.current();
+        return () => {
+            scopes.delete(handle);
+            unsubscribe();
+            debouncedUpdateRef.current();
+        };
+    }, []);
+
+    // Contribute this tree's actions to the enclosing <Langact>, if any
+    const registerWithParent = parent?.registerScope;
     useEffect(() => {
-        // Initial update
+        if (!registerWithParent || isolated) return;
+        return registerWithParent({
+            name: scope ?? "",
+            getActionRegistry,
+            getSemanticStructure: () => semanticStructureRef.current,
+            getState: () => stateRef.current,
+            subscribe: (listener) => {
+                const listeners = updateListenersRef.current;
+                listeners.add(listener);
+                return () => {
+                    listeners.delete(listener);
+                };
+            },
+        });
+    }, [registerWithParent, isolated, scope, getActionRegistry]);
+
+    const waitForRegistryUpdate = React.useCallback(
+        (timeoutMs = 500) => {
+            return new Promise<ActionRegistry>((resolve) => {
+                const listeners = updateListenersRef.current;
+                const listener = (registry: ActionRegistry) => {
+                    clearTimeout(timeout);
+                    listeners.delete(listener);
+                    resolve(registry);
+                };
+                // Fall back to the current registry if no rebuild lands in time
+                const timeout = setTimeout(() => {
+                    listeners.delete(listener);
+                    resolve(actionRegistryRef.current);
+                }, timeoutMs);
+                listeners.add(listener);
+                // Rescan even if the action changed no DOM the observer watches
+                debouncedUpdate();
+            });
+        },
+        [debouncedUpdate]
+    );
+
+    const invokeAction = React.useCallback(
+        async (
+            entry: ActionRegistryEntry,
+            args: unknown[],
+            meta: { query?: string } = {}
+        ) => {
+            const base = {
+                query: meta.query,
+                parameters: args,
+                timestamp: Date.now(),
+                before: semanticStructureRef.current,
+                after: null,
+            };
+            let result: unknown;
+            try {
+                result =
+                    executionMode === "dom"
+                        ? await executeViaDom(entry, args)
+                        : await entry.execute(...args);
+            } catch (err) {
+                journal.append(entry, {
+                    ...base,
+                    outcome: "error",
+                    error: String(err),
+                });
+                throw err;
+            }
+            const record = journal.append(entry, {
+                ...base,
+                outcome: "success",
+                result,
+            });
+            // The after-snapshot is only known once the tree has re-rendered
+            waitForRegistryUpdate().then(() => {
+                journal.update(record.id, {
+                    after: semanticStructureRef.current,
+                });
+            });
+            return result;
+        },
+        [journal, waitForRegistryUpdate, executionMode]
+    );
+
+    const undoLast = React.useCallback(async () => {
+        const record = journal.lastUndoable();
+        return record ? journal.undo(record.id) : undefined;
+    }, [journal]);
+
+    const subscribe = React.useCallback(
+        (listener: () => void) => {
+            const listeners = changeListenersRef.current;
+            listeners.add(listener);
+            const unsubscribeHistory = journal.subscribe(() => listener());
+            return () => {
+                listeners.delete(listener);
+                unsubscribeHistory();
+            };
+        },
+        [journal]
+    );
+
+    // The handle reads whatever this render provided, so it can stay stable
+    const handleSource: LangactHandleSource = {
+        getActionRegistry,
+        getLLMActionMap: () => publishedRef.current.llmActionMap,
+        getSemanticStructure: () => publishedRef.current.semanticStructure,
+        getState: () => publishedRef.current.state,
+        getHistory: journal.records,
+        subscribe,
+        waitForRegistryUpdate,
+        invokeAction,
+        provider: provider ?? parent?.provider,
+        policy,
+    };
+    const handleSourceRef = React.useRef(handleSource);
+    useEffect(() => {
+        handleSourceRef.current = handleSource;
+    });
+    const handle = React.useMemo(
+        () => createLangactHandle(() => handleSourceRef.current),
+        []
+    );
+    React.useImperativeHandle(ref, () => handle, [handle]);
+
+    useEffect(() => {
+        // Cached subtrees were built with the previous exposeState/redaction
+        scanCache.clear();
+    }, [scanCache, exposed, redaction]);
+
+    useEffect(() => {
+        // Initial update, and again whenever useAiAction or useAiState
+        // registrations change
         updateActionMaps();
-    }, [children, updateActionMaps]);
+    }, [children, updateActionMaps, manualActionsVersion, stateVersion]);
 
     useEffect(() => {
-        if (!containerRef.current) return;
+        if (!isCommitHookActive()) return;
+        // Re-scan when a commit touched anything under the scanned root,
+        // including state changes that leave the DOM alone
+        return subscribeToCommits((root) => {
+            forEachChangedFiber(root.current, scanCache.invalidate);
+            const scanned = scannedRootRef.current;
+            if (!scanned || !scanCache.trees.get(scanned)) {
+                debouncedUpdate();
+            }
+        });
+    }, [scanCache, debouncedUpdate]);
+
+    useEffect(() => {
+        // Commit notifications supersede DOM observation when available
+        if (!containerRef.current || isCommitHookActive()) return;
 
         // Set up mutation observer to detect DOM changes
         const observer = new MutationObserver((mutations) => {
@@ -487,19 +656,43 @@ export function Langact({ children }: LangactProps) {
             ],
         });
 
+        return () => observer.disconnect();
+    }, [debouncedUpdate]);
+
+    // A pending rescan must not run after unmount, whichever of the effects
+    // above scheduled it
+    useEffect(() => {
+        unmountedRef.current = false;
         return () => {
-            observer.disconnect();
-            if (updateTimeoutRef.current) {
-                clearTimeout(updateTimeoutRef.current);
-            }
+            unmountedRef.current = true;
+            window.clearTimeout(updateTimeoutRef.current);
         };
-    }, [debouncedUpdate]);
+    }, []);
 
-    // Provide the context to children
+    // Provide the context to children. Enclosing scans stop at the scope
+    // attribute and merge this tree's registry instead.
     return (
-        <div ref={containerRef}>
+        <div ref={containerRef} data-langact-scope={scope ?? ""}>
             <LangactActionContext.Provider
-                value={{ actionRegistry, llmActionMap, semanticStructure }}
+                value={{
+                    actionRegistry,
+                    llmActionMap,
+                    semanticStructure,
+                    // Nested scopes use the enclosing provider unless given one
+                    provider: provider ?? parent?.provider,
+                    policy,
+                    registerAction,
+                    state,
+                    registerState,
+                    getActionRegistry,
+                    waitForRegistryUpdate,
+                    history,
+                    invokeAction,
+                    undoLast,
+                    scope,
+                    registerScope,
+                    handle,
+                }}
             >
                 {children}
             </LangactActionContext.Provider>
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { planCommand, type CommandContext } from "./command";
+import { createMockProvider } from "./providers";
+
+const context: CommandContext = {
+    semanticStructure: { component: "TodoList" },
+    llmActionMap: {
+        "tasks.add": {
+            description: "Add a task",
+            component: "button",
+            event: "onClick",
+            path: "TodoList > button",
+            semanticId: "",
+            identifyingProps: {},
+            parameters: [],
+            parameterSchema: {
+                type: "array",
+                items: [],
+                minItems: 0,
+                additionalItems: false,
+                source: "declared",
+            },
+            destructive: false,
+            signature: "tasks.add()",
+        },
+    },
+};
+
+// Providers that answer in text only, and ones that call tools
+const providers = {
+    text: (reply: string) => ({
+        ...createMockProvider(reply),
+        supportsTools: false,
+    }),
+    tools: (reply: string) => createMockProvider(reply),
+};
+
+describe.each(Object.entries(providers))(
+    "planCommand with a %s provider",
+    (_kind, provider) => {
+        const plan = (reply: string) =>
+            planCommand("how many tasks?", provider(reply), context);
+
+        it.each(["3", "Yes", "Two"])("answers %j", async (reply) => {
+            const result = await plan(reply);
+            expect(result.steps).toEqual([]);
+            expect(result.answer).toBe(reply);
+            expect(result.declined).toBe(true);
+        });
+
+        it("runs a bare action id", async () => {
+            const result = await plan("tasks.add");
+            expect(result.steps.map((step) => step.actionId)).toEqual([
+                "tasks.add",
+            ]);
+        });
+
+        it("runs a JSON plan", async () => {
+            const result = await plan('{"actionId": "tasks.add"}');
+            expect(result.steps.map((step) => step.actionId)).toEqual([
+                "tasks.add",
+            ]);
+        });
+
+        it.each(["none", '{"actionId": "none"}'])(
+            "declines on %j",
+            async (reply) => {
+                const result = await plan(reply);
+                expect(result.steps).toEqual([]);
+                expect(result.answer).toBeUndefined();
+                expect(result.declined).toBe(true);
+            }
+        );
+    }
+);
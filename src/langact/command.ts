@@ -0,0 +1,291 @@
+// src/langact/command.ts
+//
+// Turns a natural-language command into plan steps by asking the model. The
+// CommandBar and `useLangact().runCommand` share this, so both send the same
+// prompt and read replies the same way.
+import type { LLMActionMap, SemanticStructure } from "./Langact";
+import type { LLMMessage, LLMProvider } from "./providers";
+import { toPlanSteps, type PlanStep } from "./executor";
+import { historyMessages, type ConversationTurn } from "./conversation";
+import { completeWithRetry, type RetryOptions } from "./retry";
+import { stateForPrompt, type AiStateMap } from "./state";
+import {
+    createToolDefinitions,
+    toolCallsToPlanSteps,
+    type ToolCall,
+} from "./tools";
+import {
+    compactActionMap,
+    compactSemanticStructure,
+    type CompactionBudget,
+} from "./compaction";
+
+export const DEFAULT_CONTEXT_BUDGET: CompactionBudget = { maxTokens: 2000 };
+
+const SYSTEM_PROMPT =
+    'You are an AI assistant for a React app. You are given a semantic structure of the UI and a map of available actions. When the user asks for something, respond with a JSON object containing \'actionId\' and \'parameters\' (array matching the action\'s parameterSchema). If the request needs several actions, respond with {"steps": [...]} listing them in order, each with \'actionId\', \'parameters\' and a short \'description\'; steps run one at a time and the UI updates between them. If the user asks a question about the app rather than for an action, respond with {"answer": "..."}, answering from the semantic structure and state. If no action is appropriate, respond with {"actionId": "none"}. The semantic structure is compacted: an entry with \'repeated\' stands for that many further copies of the item before it, listed by their text. Example: {"actionId": "input.onChange.1x9k2m", "parameters": ["hello world"]}';
+
+// Used when the provider passes the actions to the model as native tools
+const TOOLS_SYSTEM_PROMPT =
+    "You are an AI assistant for a React app. You are given a semantic structure of the UI, and each action you can take in it is available as a tool. When the user asks for something, call the tool for it. If the request needs several actions, call the tools in the order they should run; they run one at a time and the UI updates between them. If the user asks a question about the app rather than for an action, answer it in plain text from the semantic structure and state without calling a tool. If no action is appropriate, reply briefly without calling a tool. The semantic structure is compacted: an entry with 'repeated' stands for that many further copies of the item before it, listed by their text.";
+
+// Added when the app publishes state with useAiState or exposeState
+const STATE_NOTE =
+    " 'state' holds read-only values the app publishes, by key. Nodes of the semantic structure may also carry 'state' (selected props) and 'hooks' (the component's state values, in order). Use them to answer questions; they cannot be changed directly.";
+
+// Added when earlier turns are sent with the query
+const HISTORY_NOTE =
+    " Earlier messages are the conversation so far; the assistant messages list the actions that ran and their outcomes, so follow-ups like 'that one' or 'undo that' refer to them. Only the current message has the up-to-date semantic structure.";
+
+export type CommandContext = {
+    semanticStructure: SemanticStructure | null;
+    llmActionMap: LLMActionMap;
+    /** Values published with `useAiState`, by key. */
+    state?: AiStateMap;
+    /** Size limit for the UI structure sent with the query. */
+    contextBudget?: CompactionBudget;
+    /** Earlier turns of the conversation, oldest first. */
+    history?: ConversationTurn[];
+};
+
+export type CommandPlan = {
+    steps: PlanStep[];
+    /** The tool calls, or the reply parsed from the model's text. */
+    reply: unknown;
+    /** The model answered that no action fits, as opposed to a bad reply. */
+    declined: boolean;
+    /** The model's text, e.g. why it declined. */
+    message: string;
+    /**
+     * What the model said instead of acting: the answer to a question, or
+     * why nothing fits.
+     */
+    answer?: string;
+};
+
+export type PlanOptions = {
+    signal?: AbortSignal;
+    /** Receives the reply text as it streams in. */
+    onToken?: (text: string) => void;
+    /** Timeout and retries for the model request. */
+    retry?: RetryOptions;
+};
+
+/**
+ * The chat messages sent for a command: instructions plus the compacted UI
+ * structure and published state, and the compacted action map unless it is
+ * sent as tools. Earlier turns go between the instructions and the query.
+ */
+export function buildCommandMessages(
+    query: string,
+    {
+        semanticStructure,
+        llmActionMap,
+        state = {},
+        contextBudget = DEFAULT_CONTEXT_BUDGET,
+        history = [],
+    }: CommandContext,
+    { tools = false }: { tools?: boolean } = {}
+): LLMMessage[] {
+    const published = stateForPrompt(state);
+    return [
+        {
+            role: "system",
+            content:
+                (tools ? TOOLS_SYSTEM_PROMPT : SYSTEM_PROMPT) +
+                (published ? STATE_NOTE : "") +
+                (history.length ? HISTORY_NOTE : ""),
+        },
+        ...historyMessages(history),
+        {
+            role: "user",
+            content: JSON.stringify({
+                query,
+                ...(published ? { state: published } : {}),
+                semanticStructure: compactSemanticStructure(
+                    semanticStructure,
+                    contextBudget
+                ),
+                ...(tools
+                    ? {}
+                    : { llmActionMap: compactActionMap(llmActionMap) }),
+            }),
+        },
+    ];
+}
+
+function tryParse(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        return undefined;
+    }
+}
+
+// The first balanced JSON object or array in a text, skipping brackets
+// inside strings
+function findEmbeddedJSON(text: string): unknown {
+    for (let start = 0; start < text.length; start++) {
+        if (text[start] !== "{" && text[start] !== "[") continue;
+        let depth = 0;
+        let inString = false;
+        for (let i = start; i < text.length; i++) {
+            const char = text[i];
+            if (inString) {
+                if (char === "\\") i++;
+                else if (char === '"') inString = false;
+            } else if (char === '"') {
+                inString = true;
+            } else if (char === "{" || char === "[") {
+                depth++;
+            } else if (char === "}" || char === "]") {
+                depth--;
+                if (depth === 0) {
+                    const value = tryParse(text.slice(start, i + 1));
+                    if (value !== undefined) return value;
+                    break;
+                }
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Reads a plan from the model's text: plain JSON, JSON in a code fence, or
+ * the first JSON object embedded in prose. A lone token is taken to be a
+ * bare action id. Returns null when there is nothing to read.
+ */
+export function parseModelReply(content: string): unknown {
+    const text = content.trim();
+    if (!text) return null;
+    const direct = tryParse(text);
+    // A JSON string is a quoted bare id, handled below
+    if (direct !== undefined && typeof direct !== "string") return direct;
+    const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(text);
+    const inFence = fenced ? tryParse(fenced[1].trim()) : undefined;
+    if (inFence !== undefined) return inFence;
+    const embedded = findEmbeddedJSON(text);
+    if (embedded !== undefined) return embedded;
+    const token = text.replace(/["'`]/g, "");
+    return /^[\w.~-]+$/.test(token) ? { actionId: token } : null;
+}
+
+/**
+ * The model's text when it is prose rather than a JSON plan, else "".
+ */
+export function replyProse(content: string): string {
+    return parseModelReply(content) === null ? content.trim() : "";
+}
+
+// Text that is not a plan is the answer: a lone "3" or "Yes" rather than a
+// number or a bare action id. Only a JSON object naming an action, steps or
+// a tool is read as a plan; a lone "none" declines like {"actionId": "none"}.
+function plainText(content: string, reply: unknown): string {
+    const text = content.trim();
+    if ((reply as { actionId?: unknown } | null)?.actionId === "none") {
+        return "";
+    }
+    if (!text.includes("{")) return text;
+    const items = Array.isArray(reply) ? reply : [reply];
+    const isPlan = items.some(
+        (item) =>
+            !!item &&
+            typeof item === "object" &&
+            ("actionId" in item || "steps" in item || "name" in item)
+    );
+    return isPlan ? "" : text;
+}
+
+// {"answer": "..."}, the JSON form of a text reply
+function answerOf(reply: unknown): string | undefined {
+    const answer = (reply as { answer?: unknown } | null)?.answer;
+    return typeof answer === "string" && answer.trim()
+        ? answer.trim()
+        : undefined;
+}
+
+// Text replies written as tool calls: {"name": ..., "arguments": {...}}
+function textToolCalls(reply: unknown): ToolCall[] {
+    const items = Array.isArray(reply) ? reply : [reply];
+    return items.flatMap((item) => {
+        if (!item || typeof item !== "object") return [];
+        const {
+            name,
+            arguments: args,
+            input,
+        } = item as Record<string, unknown>;
+        const named = args ?? input;
+        return typeof name === "string" && named && typeof named === "object"
+            ? [{ name, arguments: named as Record<string, unknown> }]
+            : [];
+    });
+}
+
+/**
+ * Asks the model which actions carry out `query`. Tool calls are used when
+ * the provider supports them; the reply text is parsed as a fallback.
+ * Transient failures are retried; see `completeWithRetry`.
+ */
+export async function planCommand(
+    query: string,
+    provider: LLMProvider,
+    context: CommandContext,
+    { signal, onToken, retry }: PlanOptions = {}
+): Promise<CommandPlan> {
+    const tools = provider.supportsTools
+        ? createToolDefinitions(context.llmActionMap)
+        : undefined;
+    const response = await completeWithRetry(
+        provider,
+        {
+            messages: buildCommandMessages(query, context, { tools: !!tools }),
+            tools,
+            signal,
+            ...(onToken ? { onToken } : {}),
+        },
+        retry
+    );
+    const message = response.content ?? "";
+    if (tools && response.toolCalls?.length) {
+        return {
+            steps: toolCallsToPlanSteps(response.toolCalls, tools),
+            reply: response.toolCalls,
+            declined: false,
+            message,
+        };
+    }
+    const reply = parseModelReply(message);
+    let steps = toPlanSteps(reply);
+    if (tools) {
+        // Models without native tool support may still name the tools, or
+        // write the calls out as text
+        const byName = new Map(tools.map((tool) => [tool.name, tool]));
+        steps = [
+            ...steps
+                .map((step) =>
+                    context.llmActionMap[step.actionId]
+                        ? step
+                        : {
+                              ...step,
+                              actionId:
+                                  byName.get(step.actionId)?.actionId ?? "",
+                          }
+                )
+                .filter((step) => step.actionId),
+            ...toolCallsToPlanSteps(textToolCalls(reply), tools),
+        ];
+    } else if (!message.includes("{")) {
+        // A lone word or number is only a plan when it names an action
+        steps = steps.filter((step) => context.llmActionMap[step.actionId]);
+    }
+    if (steps.length > 0) return { steps, reply, declined: false, message };
+    const answer = answerOf(reply) ?? (plainText(message, reply) || undefined);
+    const declined =
+        answer !== undefined ||
+        // With tools, declining is replying without a call
+        (!!tools && reply === null) ||
+        (reply as { actionId?: unknown } | null)?.actionId === "none" ||
+        Array.isArray((reply as { steps?: unknown } | null)?.steps);
+    return { steps, reply, declined, message, answer };
+}
@@ -0,0 +1,156 @@
+// src/langact/commits.ts
+//
+// Commit notifications from React through the global hook React DevTools
+// uses. react-dom looks for `__REACT_DEVTOOLS_GLOBAL_HOOK__` when it loads and
+// calls `onCommitFiberRoot` after every commit, so this module has to be
+// imported before react-dom (see main.tsx). An existing hook (DevTools, React
+// Refresh) is wrapped rather than replaced.
+import type { FiberNode } from "./Langact";
+
+export type FiberRoot = { current: FiberNode };
+
+type CommitListener = (root: FiberRoot) => void;
+
+type DevToolsHook = {
+    renderers: Map<number, unknown>;
+    supportsFiber: boolean;
+    inject: (renderer: unknown) => number;
+    onCommitFiberRoot: (
+        rendererId: number,
+        root: FiberRoot,
+        ...rest: unknown[]
+    ) => void;
+    onCommitFiberUnmount: (...args: unknown[]) => void;
+    onPostCommitFiberRoot?: (...args: unknown[]) => void;
+    checkDCE?: (...args: unknown[]) => void;
+};
+
+type HookTarget = { __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHook };
+
+const listeners = new Set<CommitListener>();
+let hook: DevToolsHook | undefined;
+
+function createHook(): DevToolsHook {
+    const renderers = new Map<number, unknown>();
+    return {
+        renderers,
+        supportsFiber: true,
+        inject(renderer) {
+            const id = renderers.size + 1;
+            renderers.set(id, renderer);
+            return id;
+        },
+        onCommitFiberRoot() {},
+        onCommitFiberUnmount() {},
+        onPostCommitFiberRoot() {},
+        checkDCE() {},
+    };
+}
+
+/**
+ * Installs (or wraps) the global hook. Runs on import; calling it again is a
+ * no-op.
+ */
+export function installCommitHook(): void {
+    if (hook) return;
+    // react-dom reads the hook as a global, so it lives on globalThis
+    const target = globalThis as unknown as HookTarget;
+    hook = target.__REACT_DEVTOOLS_GLOBAL_HOOK__ ??= createHook();
+    const onCommitFiberRoot = hook.onCommitFiberRoot;
+    hook.onCommitFiberRoot = function (rendererId, root, ...rest) {
+        listeners.forEach((listener) => {
+            try {
+                listener(root);
+            } catch (err) {
+                console.error("Langact commit listener failed:", err);
+            }
+        });
+        return onCommitFiberRoot.call(this, rendererId, root, ...rest);
+    };
+}
+
+/**
+ * True once a React renderer has attached to the hook, i.e. commits will
+ * actually be reported. False when react-dom loaded before this module.
+ */
+export function isCommitHookActive(): boolean {
+    return !!hook && hook.renderers.size > 0;
+}
+
+export function subscribeToCommits(listener: CommitListener): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Visits the fibers a commit changed, the way DevTools diffs a commit: a
+ * fiber whose child list is the same object as its alternate's bailed out
+ * with its whole subtree, so only paths that re-rendered are walked. Must run
+ * inside the commit notification, while `alternate` is the previous tree.
+ */
+export function forEachChangedFiber(
+    root: FiberNode,
+    visit: (fiber: FiberNode) => void
+): void {
+    const stack: FiberNode[] = [root];
+    while (stack.length > 0) {
+        const next = stack.pop()!;
+        const prev = next.alternate;
+        // Mounted in this commit: nothing can be cached for it yet
+        if (!prev) continue;
+        if (
+            next.memoizedProps === prev.memoizedProps &&
+            next.memoizedState === prev.memoizedState &&
+            next.child === prev.child
+        ) {
+            continue;
+        }
+        visit(next);
+        for (let child = next.child; child; child = child.sibling) {
+            stack.push(child);
+        }
+    }
+}
+
+/**
+ * Per-fiber memo of scan results. An entry is stored on one of the two
+ * alternates and found from either; it stays valid while the fiber's props
+ * object and `key` are unchanged and no commit has invalidated it.
+ */
+export type FiberCache<T> = {
+    get: (fiber: FiberNode, key?: string) => T | undefined;
+    set: (fiber: FiberNode, value: T, key?: string) => void;
+    invalidate: (fiber: FiberNode) => void;
+    clear: () => void;
+};
+
+export function createFiberCache<T>(): FiberCache<T> {
+    type Entry = { props: unknown; key: string; value: T };
+    let entries = new WeakMap<FiberNode, Entry>();
+    return {
+        get(fiber, key = "") {
+            const entry =
+                entries.get(fiber) ??
+                (fiber.alternate ? entries.get(fiber.alternate) : undefined);
+            return entry &&
+                entry.props === fiber.memoizedProps &&
+                entry.key === key
+                ? entry.value
+                : undefined;
+        },
+        set(fiber, value, key = "") {
+            entries.set(fiber, { props: fiber.memoizedProps, key, value });
+        },
+        invalidate(fiber) {
+            entries.delete(fiber);
+            if (fiber.alternate) entries.delete(fiber.alternate);
+        },
+        clear() {
+            entries = new WeakMap();
+        },
+    };
+}
+
+installCommitHook();
@@ -0,0 +1,341 @@
+// src/langact/compaction.ts
+//
+// Shrinks the semantic structure and action map before they are sent to the
+// LLM. Structural passes remove noise (icons, empty wrappers, repeated list
+// items); if the result still exceeds the budget, progressively lossier
+// stages are applied until it fits.
+import type { LLMActionMap, SemanticStructure } from "./Langact";
+
+export type CompactionBudget = {
+    /** Approximate token budget; estimated at four characters per token. */
+    maxTokens?: number;
+    /** Character budget of the serialised structure; wins over maxTokens. */
+    maxChars?: number;
+};
+
+export interface CompactionOptions extends CompactionBudget {
+    /** Sibling runs with the same shape at least this long are deduplicated. */
+    minRepeat?: number;
+}
+
+// SVG internals and other elements that never carry meaning on their own
+const DECORATIVE_ELEMENTS = new Set([
+    "svg",
+    "path",
+    "circle",
+    "ellipse",
+    "line",
+    "polyline",
+    "polygon",
+    "rect",
+    "g",
+    "defs",
+    "use",
+    "symbol",
+    "clipPath",
+    "mask",
+    "linearGradient",
+    "radialGradient",
+    "stop",
+    "br",
+    "hr",
+]);
+
+const CHARS_PER_TOKEN = 4;
+const SHORT_TEXT_LENGTH = 40;
+const SHORT_LIST_LENGTH = 5;
+
+/**
+ * Rough token count of a value once serialised as JSON.
+ */
+export function estimateTokens(value: unknown): number {
+    return Math.ceil((JSON.stringify(value) ?? "").length / CHARS_PER_TOKEN);
+}
+
+function budgetChars(budget: CompactionBudget): number {
+    if (budget.maxChars !== undefined) return budget.maxChars;
+    if (budget.maxTokens !== undefined) {
+        return budget.maxTokens * CHARS_PER_TOKEN;
+    }
+    return Infinity;
+}
+
+function isDecorative(node: SemanticStructure): boolean {
+    return (
+        DECORATIVE_ELEMENTS.has(node.component) ||
+        node["aria-hidden"] === true ||
+        node["aria-hidden"] === "true" ||
+        node.role === "presentation" ||
+        node.role === "none"
+    );
+}
+
+function hasActions(node: SemanticStructure): boolean {
+    return !!node.actions && node.actions.length > 0;
+}
+
+// Anything the model could read or act on, not counting descendants
+function hasOwnContent(node: SemanticStructure): boolean {
+    return (
+        hasActions(node) ||
+        !!node.text ||
+        !!node.placeholder ||
+        !!node.href ||
+        !!node.state ||
+        !!node.hooks ||
+        ["string", "number", "boolean"].includes(typeof node.value)
+    );
+}
+
+function isComposite(node: SemanticStructure): boolean {
+    return /^[A-Z]/.test(node.component);
+}
+
+function withChildren(
+    node: SemanticStructure,
+    children: SemanticStructure[]
+): SemanticStructure {
+    const next = { ...node };
+    if (children.length > 0) {
+        next.children = children;
+    } else {
+        delete next.children;
+    }
+    return next;
+}
+
+/**
+ * Removes decorative elements. An icon that itself has a handler is kept,
+ * without its children.
+ */
+function removeDecorative(node: SemanticStructure): SemanticStructure | null {
+    if (isDecorative(node)) {
+        return hasActions(node) ? withChildren(node, []) : null;
+    }
+    const children = (node.children ?? [])
+        .map(removeDecorative)
+        .filter((child): child is SemanticStructure => child !== null);
+    return withChildren(node, children);
+}
+
+/**
+ * Drops subtrees that contain no actions and no text.
+ */
+function pruneEmpty(node: SemanticStructure): SemanticStructure | null {
+    const children = (node.children ?? [])
+        .map(pruneEmpty)
+        .filter((child): child is SemanticStructure => child !== null);
+    if (children.length === 0 && !hasOwnContent(node)) return null;
+    return withChildren(node, children);
+}
+
+/**
+ * Replaces wrappers that have nothing of their own and a single child with
+ * that child. A component name is carried over so `TaskItem > li` still says
+ * which component the markup belongs to.
+ */
+function collapseWrappers(node: SemanticStructure): SemanticStructure {
+    const children = (node.children ?? []).map(collapseWrappers);
+    if (children.length === 1 && !hasOwnContent(node)) {
+        const [child] = children;
+        if (isComposite(node) && !child.component.includes(node.component)) {
+            return {
+                ...child,
+                component: `${node.component} > ${child.component}`,
+            };
+        }
+        return child;
+    }
+    return withChildren(node, children);
+}
+
+// Structural fingerprint: component names and events, ignoring text/values
+function shapeOf(node: SemanticStructure): string {
+    const events = (node.actions ?? []).map((action) => action.event).sort();
+    const children = (node.children ?? []).map(shapeOf).join(",");
+    return `${node.component}(${events.join(",")})[${children}]`;
+}
+
+/**
+ * All text a subtree shows, in document order.
+ */
+export function collectText(node: SemanticStructure): string {
+    const own = [node.text, node.placeholder, node.value]
+        .filter((part) => typeof part === "string" && part !== "")
+        .map(String);
+    const nested = (node.children ?? []).map(collectText).filter(Boolean);
+    return [...own, ...nested].join(" ");
+}
+
+/**
+ * Keeps the first item of a run of identically shaped siblings as a template
+ * and reduces the others to their text.
+ */
+function dedupeRepeated(
+    node: SemanticStructure,
+    minRepeat: number
+): SemanticStructure {
+    const children = (node.children ?? []).map((child) =>
+        dedupeRepeated(child, minRepeat)
+    );
+    const result: SemanticStructure[] = [];
+    let index = 0;
+    while (index < children.length) {
+        const shape = shapeOf(children[index]);
+        let end = index + 1;
+        while (end < children.length && shapeOf(children[end]) === shape) {
+            end++;
+        }
+        if (end - index >= minRepeat) {
+            const [template, ...rest] = children.slice(index, end);
+            result.push(template, {
+                component: template.component,
+                repeated: rest.length,
+                texts: rest.map(collectText),
+            });
+        } else {
+            result.push(...children.slice(index, end));
+        }
+        index = end;
+    }
+    return withChildren(node, result);
+}
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? text.slice(0, length - 1) + "…" : text;
+}
+
+// Degradation stage 1: drop styling and handler names
+function stripDetails(node: SemanticStructure): SemanticStructure {
+    const next: SemanticStructure = { ...node };
+    delete next.className;
+    delete next.role;
+    if (next.actions) {
+        next.actions = next.actions.map(({ event }) => ({ event }));
+    }
+    return withChildren(next, (node.children ?? []).map(stripDetails));
+}
+
+// Degradation stage 2: shorten texts and repeated-item lists
+function shortenText(node: SemanticStructure): SemanticStructure {
+    const next: SemanticStructure = { ...node };
+    if (typeof next.text === "string") {
+        next.text = truncate(next.text, SHORT_TEXT_LENGTH);
+    }
+    if (typeof next.value === "string") {
+        next.value = truncate(next.value, SHORT_TEXT_LENGTH);
+    }
+    if (Array.isArray(next.texts)) {
+        const texts = next.texts as string[];
+        next.texts = texts
+            .slice(0, SHORT_LIST_LENGTH)
+            .map((text) => truncate(text, SHORT_TEXT_LENGTH));
+        if (texts.length > SHORT_LIST_LENGTH) {
+            next.texts.push(`…${texts.length - SHORT_LIST_LENGTH} more`);
+        }
+    }
+    return withChildren(next, (node.children ?? []).map(shortenText));
+}
+
+// Degradation stage 3: a flat list of actionable elements with their text
+function flattenActionable(node: SemanticStructure): SemanticStructure {
+    const items: SemanticStructure[] = [];
+    const visit = (current: SemanticStructure) => {
+        if (current.repeated !== undefined) {
+            items.push(current);
+        } else if (hasActions(current)) {
+            const item: SemanticStructure = {
+                component: current.component,
+                actions: current.actions,
+            };
+            const text = current.label || collectText(current);
+            if (text) item.text = truncate(text, SHORT_TEXT_LENGTH);
+            if (current.context) {
+                item.context = truncate(current.context, SHORT_TEXT_LENGTH);
+            }
+            items.push(item);
+        }
+        current.children?.forEach(visit);
+    };
+    visit(node);
+    return withChildren({ component: node.component }, items);
+}
+
+// Last resort: keep as many leading children as fit and count the rest
+function truncateChildren(
+    node: SemanticStructure,
+    maxChars: number
+): SemanticStructure {
+    const children = node.children ?? [];
+    let kept = children.length;
+    const build = (count: number) =>
+        withChildren(
+            node,
+            count < children.length
+                ? [
+                      ...children.slice(0, count),
+                      { component: "…", omitted: children.length - count },
+                  ]
+                : children
+        );
+    while (kept > 0 && JSON.stringify(build(kept)).length > maxChars) {
+        kept--;
+    }
+    return build(kept);
+}
+
+/**
+ * Compacts a semantic structure for the prompt. Decorative elements, empty
+ * subtrees and single-child wrappers are always removed and repeated items
+ * deduplicated; with a budget, details, long texts and finally the tree
+ * shape itself are given up until the JSON fits.
+ */
+export function compactSemanticStructure(
+    structure: SemanticStructure | null,
+    { minRepeat = 3, ...budget }: CompactionOptions = {}
+): SemanticStructure | null {
+    if (!structure) return null;
+    const cleaned = removeDecorative(structure);
+    const pruned = cleaned && pruneEmpty(cleaned);
+    if (!pruned) return null;
+    let compacted = dedupeRepeated(collapseWrappers(pruned), minRepeat);
+
+    const maxChars = budgetChars(budget);
+    const fits = (node: SemanticStructure) =>
+        JSON.stringify(node).length <= maxChars;
+    for (const stage of [stripDetails, shortenText, flattenActionable]) {
+        if (fits(compacted)) return compacted;
+        compacted = stage(compacted);
+    }
+    return fits(compacted) ? compacted : truncateChildren(compacted, maxChars);
+}
+
+/**
+ * Drops the action map fields the model does not need to pick an action:
+ * paths, hashes, handler names and schema bookkeeping.
+ */
+export function compactActionMap(
+    llmActionMap: LLMActionMap
+): Record<string, Record<string, unknown>> {
+    const compacted: Record<string, Record<string, unknown>> = {};
+    for (const [id, action] of Object.entries(llmActionMap)) {
+        const identifyingProps = Object.fromEntries(
+            Object.entries(action.identifyingProps ?? {}).filter(
+                ([, value]) => value !== null && typeof value !== "object"
+            )
+        );
+        const { items, minItems, additionalItems } = action.parameterSchema;
+        compacted[id] = {
+            description: action.description,
+            component: action.component,
+            event: action.event,
+            ...(Object.keys(identifyingProps).length > 0
+                ? { identifyingProps }
+                : {}),
+            parameterSchema: { items, minItems, additionalItems },
+            ...(action.destructive ? { destructive: true } : {}),
+            ...(action.source ? { source: action.source } : {}),
+        };
+    }
+    return compacted;
+}
@@ -0,0 +1,127 @@
+// src/langact/conversation.ts
+//
+// Multi-turn command history. Each turn keeps the query, the model's reply and
+// the actions that ran with their outcomes. Earlier turns are sent to the
+// model as plain chat messages, so follow-ups like "delete that one too" can
+// refer back to them; only the current query carries the UI structure.
+import type { LLMMessage } from "./providers";
+import type { StepProgress, StepStatus } from "./executor";
+import { describeChanges, type StructureChange } from "./diff";
+
+export const DEFAULT_HISTORY_LIMIT = 10;
+
+// Longest return value quoted back to the model
+const MAX_RESULT_LENGTH = 200;
+
+export type TurnAction = {
+    actionId: string;
+    parameters: unknown[];
+    description?: string;
+    status: StepStatus;
+    error?: string;
+    /** What the handler returned. */
+    result?: unknown;
+    changes?: StructureChange[];
+};
+
+export type ConversationTurn = {
+    query: string;
+    /** The model's text, or a note on what happened. */
+    reply: string;
+    actions: TurnAction[];
+    /** Asked by the CommandBar itself to check earlier actions. */
+    verification?: boolean;
+};
+
+/**
+ * A turn from a command's plan progress.
+ */
+export function createTurn(
+    query: string,
+    reply: string,
+    progress: StepProgress[] = []
+): ConversationTurn {
+    return {
+        query,
+        reply,
+        actions: progress.map(
+            ({ step, status, resolvedId, error, result, changes }) => ({
+                actionId: resolvedId ?? step.actionId,
+                parameters: step.parameters ?? [],
+                ...(step.description ? { description: step.description } : {}),
+                status,
+                ...(error ? { error } : {}),
+                ...(result !== undefined ? { result } : {}),
+                ...(changes ? { changes } : {}),
+            })
+        ),
+    };
+}
+
+function formatResult(value: unknown): string {
+    let text: string;
+    try {
+        text = JSON.stringify(value) ?? String(value);
+    } catch {
+        text = String(value);
+    }
+    return text.length > MAX_RESULT_LENGTH
+        ? text.slice(0, MAX_RESULT_LENGTH) + "..."
+        : text;
+}
+
+/**
+ * Adds a turn, dropping the oldest ones beyond `limit`.
+ */
+export function appendTurn(
+    history: ConversationTurn[],
+    turn: ConversationTurn,
+    limit = DEFAULT_HISTORY_LIMIT
+): ConversationTurn[] {
+    if (limit <= 0) return [];
+    return [...history, turn].slice(-limit);
+}
+
+/**
+ * What the assistant said and did in a turn, as sent back to the model.
+ */
+export function describeTurn(turn: ConversationTurn): string {
+    const lines = turn.reply.trim() ? [turn.reply.trim()] : [];
+    if (turn.actions.length === 0) {
+        if (lines.length === 0) lines.push("No action was taken.");
+    } else {
+        lines.push("Actions:");
+        turn.actions.forEach((action) => {
+            const label = action.description ? ` (${action.description})` : "";
+            lines.push(
+                `- ${action.actionId}${label} with parameters ${JSON.stringify(
+                    action.parameters
+                )}: ${action.status}${action.error ? `, ${action.error}` : ""}`
+            );
+            if (action.result !== undefined) {
+                lines.push(`  Returned: ${formatResult(action.result)}`);
+            }
+            if (action.changes) {
+                lines.push(
+                    action.changes.length
+                        ? "  UI changes:"
+                        : "  UI changes: none",
+                    ...describeChanges(action.changes).map(
+                        (line) => `    ${line}`
+                    )
+                );
+            }
+        });
+    }
+    return lines.join("\n");
+}
+
+/**
+ * Chat messages for earlier turns, oldest first.
+ */
+export function historyMessages(history: ConversationTurn[]): LLMMessage[] {
+    return history.flatMap((turn): LLMMessage[] => [
+        { role: "user", content: turn.query },
+        { role: "assistant", content: describeTurn(turn) },
+    ]);
+}
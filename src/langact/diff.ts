@@ -0,0 +1,142 @@
+// src/langact/diff.ts
+//
+// What an action changed in the UI, as seen by the model. The structure is
+// flattened into one line per node that shows something (text, a value, a
+// checked state, ...), keyed by its component path, and the two sides are
+// compared as multisets. Sibling order is ignored, so deleting one row of a
+// list reads as one removal rather than every later row changing.
+import type { SemanticStructure } from "./Langact";
+
+export type StructureChange = {
+    type: "added" | "removed" | "changed";
+    /** Component names from the nearest ancestors down to the node. */
+    path: string;
+    before?: string;
+    after?: string;
+};
+
+// Node fields that make up what the user sees or can interact with
+const VISIBLE_FIELDS = [
+    "text",
+    "label",
+    "value",
+    "checked",
+    "selected",
+    "disabled",
+    "placeholder",
+    "className",
+] as const;
+
+const PATH_DEPTH = 3;
+const DEFAULT_CHANGE_LIMIT = 20;
+
+type Fact = { path: string; content: string };
+
+function contentOf(node: SemanticStructure): string {
+    return VISIBLE_FIELDS.filter(
+        (field) =>
+            node[field] !== undefined &&
+            node[field] !== null &&
+            node[field] !== "" &&
+            node[field] !== false
+    )
+        .map((field) =>
+            field === "text"
+                ? JSON.stringify(node.text)
+                : node[field] === true
+                ? field
+                : `${field}=${JSON.stringify(node[field])}`
+        )
+        .join(" ");
+}
+
+function collectFacts(
+    node: SemanticStructure | null,
+    ancestors: string[] = [],
+    facts: Fact[] = []
+): Fact[] {
+    if (!node) return facts;
+    const names = [...ancestors, node.component];
+    const content = contentOf(node);
+    if (content) {
+        facts.push({ path: names.slice(-PATH_DEPTH).join(" > "), content });
+    }
+    node.children?.forEach((child) => collectFacts(child, names, facts));
+    return facts;
+}
+
+// Facts on one side that the other side lacks, counting duplicates
+function subtract(facts: Fact[], other: Fact[]): Fact[] {
+    const remaining = new Map<string, number>();
+    other.forEach((fact) => {
+        const key = `${fact.path}\n${fact.content}`;
+        remaining.set(key, (remaining.get(key) ?? 0) + 1);
+    });
+    return facts.filter((fact) => {
+        const key = `${fact.path}\n${fact.content}`;
+        const count = remaining.get(key) ?? 0;
+        if (count === 0) return true;
+        remaining.set(key, count - 1);
+        return false;
+    });
+}
+
+/**
+ * Changes between two semantic structures. A removal and an addition at the
+ * same path are reported together as one change.
+ */
+export function diffSemanticStructure(
+    before: SemanticStructure | null,
+    after: SemanticStructure | null
+): StructureChange[] {
+    const beforeFacts = collectFacts(before);
+    const afterFacts = collectFacts(after);
+    const removed = subtract(beforeFacts, afterFacts);
+    const added = subtract(afterFacts, beforeFacts);
+    const changes: StructureChange[] = removed.map((fact) => {
+        const index = added.findIndex((other) => other.path === fact.path);
+        if (index === -1) {
+            return { type: "removed", path: fact.path, before: fact.content };
+        }
+        const [replacement] = added.splice(index, 1);
+        return {
+            type: "changed",
+            path: fact.path,
+            before: fact.content,
+            after: replacement.content,
+        };
+    });
+    return [
+        ...changes,
+        ...added.map(
+            (fact): StructureChange => ({
+                type: "added",
+                path: fact.path,
+                after: fact.content,
+            })
+        ),
+    ];
+}
+
+/**
+ * One line per change, for prompts and status messages, with a note on any
+ * beyond `limit`.
+ */
+export function describeChanges(
+    changes: StructureChange[],
+    limit = DEFAULT_CHANGE_LIMIT
+): string[] {
+    const lines = changes
+        .slice(0, limit)
+        .map((change) =>
+            change.type === "added"
+                ? `+ ${change.path}: ${change.after}`
+                : change.type === "removed"
+                ? `- ${change.path}: ${change.before}`
+                : `~ ${change.path}: ${change.before} -> ${change.after}`
+        );
+    if (changes.length > limit) {
+        lines.push(`(${changes.length - limit} more changes)`);
+    }
+    return lines;
+}
@@ -0,0 +1,161 @@
+// src/langact/dom.ts
+//
+// DOM-grounded execution: instead of calling a handler directly, scroll the
+// entry's element into view, highlight it, and dispatch the real browser
+// events a user would cause, so React's own event pipeline runs.
+import type { ActionRegistryEntry } from "./Langact";
+import { domEventType } from "./events";
+
+export type ExecutionMode = "handler" | "dom";
+
+const HIGHLIGHT_MS = 800;
+const PRE_DISPATCH_DELAY_MS = 150;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Scrolls an element into view and outlines it briefly. Uses inline styles so
+ * it works without any stylesheet from the host app.
+ */
+export function highlightElement(element: Element, durationMs = HIGHLIGHT_MS) {
+    element.scrollIntoView?.({ block: "center", behavior: "smooth" });
+    if (!(element instanceof HTMLElement || element instanceof SVGElement)) {
+        return;
+    }
+    const { outline, outlineOffset, transition } = element.style;
+    element.style.transition = "outline-color 150ms ease";
+    element.style.outline = "2px solid #007aff";
+    element.style.outlineOffset = "2px";
+    setTimeout(() => {
+        element.style.outline = outline;
+        element.style.outlineOffset = outlineOffset;
+        element.style.transition = transition;
+    }, durationMs);
+}
+
+// React tracks controlled input values through the prototype setter, so the
+// value has to be set there for the subsequent input event to register.
+function setNativeValue(element: Element, value: string) {
+    const prototype =
+        element instanceof HTMLTextAreaElement
+            ? HTMLTextAreaElement.prototype
+            : element instanceof HTMLSelectElement
+            ? HTMLSelectElement.prototype
+            : HTMLInputElement.prototype;
+    const setter = Object.getOwnPropertyDescriptor(prototype, "value")?.set;
+    if (setter) {
+        setter.call(element, value);
+    } else {
+        (element as HTMLInputElement).value = value;
+    }
+}
+
+/**
+ * Dispatches the DOM events that correspond to `entry.event` on `element`.
+ * Returns false when the event has no faithful DOM equivalent, in which case
+ * the caller should fall back to the handler.
+ */
+export function dispatchDomEvent(
+    element: Element,
+    eventProp: string,
+    args: unknown[]
+): boolean {
+    const type = domEventType(eventProp);
+    const toggle =
+        element instanceof HTMLInputElement &&
+        (element.type === "checkbox" || element.type === "radio");
+
+    switch (type) {
+        case "click":
+            if (element instanceof HTMLElement) {
+                element.focus();
+                element.click();
+            } else {
+                element.dispatchEvent(
+                    new MouseEvent("click", { bubbles: true, cancelable: true })
+                );
+            }
+            return true;
+        case "dblclick":
+            element.dispatchEvent(
+                new MouseEvent("dblclick", { bubbles: true, cancelable: true })
+            );
+            return true;
+        case "change":
+        case "input":
+            if (toggle) {
+                if (element.checked !== Boolean(args[0])) element.click();
+                return true;
+            }
+            if (
+                !(
+                    element instanceof HTMLInputElement ||
+                    element instanceof HTMLTextAreaElement ||
+                    element instanceof HTMLSelectElement
+                )
+            ) {
+                return false;
+            }
+            element.focus();
+            setNativeValue(
+                element,
+                args[0] === undefined ? "" : String(args[0])
+            );
+            element.dispatchEvent(new Event("input", { bubbles: true }));
+            element.dispatchEvent(new Event("change", { bubbles: true }));
+            return true;
+        case "keydown":
+        case "keyup":
+        case "keypress": {
+            const key = typeof args[0] === "string" ? args[0] : "Enter";
+            if (element instanceof HTMLElement) element.focus();
+            element.dispatchEvent(
+                new KeyboardEvent(type, {
+                    key,
+                    bubbles: true,
+                    cancelable: true,
+                })
+            );
+            return true;
+        }
+        case "submit":
+            if (element instanceof HTMLFormElement) {
+                element.requestSubmit();
+                return true;
+            }
+            return false;
+        case "focus":
+            (element as HTMLElement).focus?.();
+            return true;
+        case "blur":
+            (element as HTMLElement).blur?.();
+            return true;
+        default:
+            return false;
+    }
+}
+
+/**
+ * Runs an entry through the DOM: highlight, then dispatch real events.
+ * Entries without a DOM node, or whose handler is a component prop rather
+ * than a DOM listener, are still highlighted where possible but fall back to
+ * calling `execute` directly.
+ */
+export async function executeViaDom(
+    entry: ActionRegistryEntry,
+    args: unknown[]
+): Promise<unknown> {
+    const element = entry.domNode;
+    if (!element || !element.isConnected) {
+        return entry.execute(...args);
+    }
+    highlightElement(element);
+    await wait(PRE_DISPATCH_DELAY_MS);
+    // Hand-registered handlers with arguments can't receive them via the DOM
+    const dispatchable =
+        !!entry.element && (entry.source === "auto" || args.length === 0);
+    if (dispatchable && dispatchDomEvent(element, entry.event, args)) {
+        return undefined;
+    }
+    return entry.execute(...args);
+}
@@ -0,0 +1,169 @@
+// src/langact/events.ts
+//
+// Handlers on host elements (`<input onChange={(e) => ...}>`) expect React
+// event objects, which the model cannot produce. These helpers describe the
+// simple arguments the model should send instead and build an event-shaped
+// object from them.
+import type { AiActionParameter } from "./schema";
+
+// What the registry knows about the host element a handler is attached to
+export type HostElementInfo = {
+    tag: string;
+    type?: string;
+    name?: string;
+    value?: unknown;
+    checked?: boolean;
+};
+
+export type SyntheticEventLike = {
+    type: string;
+    target: Record<string, unknown>;
+    currentTarget: Record<string, unknown>;
+    key?: string;
+    code?: string;
+    bubbles: boolean;
+    defaultPrevented: boolean;
+    isTrusted: false;
+    timeStamp: number;
+    nativeEvent: Record<string, unknown>;
+    preventDefault: () => void;
+    isDefaultPrevented: () => boolean;
+    stopPropagation: () => void;
+    isPropagationStopped: () => boolean;
+    persist: () => void;
+};
+
+const KEY_EVENTS = ["keydown", "keyup", "keypress"];
+const VALUE_EVENTS = ["change", "input"];
+
+/**
+ * Maps a React event prop to its DOM event type: "onKeyDown" -> "keydown".
+ */
+export function domEventType(eventProp: string): string {
+    const type = eventProp.replace(/^on/, "").replace(/Capture$/, "");
+    return type === "DoubleClick" ? "dblclick" : type.toLowerCase();
+}
+
+function isToggle(element: HostElementInfo): boolean {
+    return (
+        element.tag === "input" &&
+        (element.type === "checkbox" || element.type === "radio")
+    );
+}
+
+/**
+ * Parameters the model supplies for an event handler on a host element.
+ */
+export function eventParameters(
+    element: HostElementInfo,
+    eventProp: string
+): AiActionParameter[] {
+    const type = domEventType(eventProp);
+    if (VALUE_EVENTS.includes(type)) {
+        return isToggle(element)
+            ? [
+                  {
+                      name: "checked",
+                      type: "boolean",
+                      description: "Whether the box should be checked",
+                  },
+              ]
+            : [
+                  {
+                      name: "value",
+                      type: "string",
+                      description: `New value of the ${element.tag}`,
+                  },
+              ];
+    }
+    if (KEY_EVENTS.includes(type)) {
+        return [
+            {
+                name: "key",
+                type: "string",
+                description: 'Key to press, e.g. "Enter" or "Escape"',
+            },
+        ];
+    }
+    return [];
+}
+
+function isEventLike(value: unknown): boolean {
+    return (
+        !!value &&
+        typeof value === "object" &&
+        ("nativeEvent" in value || "preventDefault" in value)
+    );
+}
+
+/**
+ * Builds an event-shaped object for `eventProp` on `element` from the simple
+ * arguments described by `eventParameters`.
+ */
+export function createSyntheticEvent(
+    element: HostElementInfo,
+    eventProp: string,
+    args: unknown[]
+): SyntheticEventLike {
+    const type = domEventType(eventProp);
+    const target: Record<string, unknown> = {
+        tagName: element.tag.toUpperCase(),
+        type: element.type,
+        name: element.name,
+        value: element.value ?? "",
+        checked: element.checked ?? false,
+    };
+    if (VALUE_EVENTS.includes(type)) {
+        if (isToggle(element)) {
+            target.checked = Boolean(args[0]);
+        } else {
+            target.value = args[0] === undefined ? "" : String(args[0]);
+        }
+    }
+
+    let defaultPrevented = false;
+    let propagationStopped = false;
+    const event: SyntheticEventLike = {
+        type,
+        target,
+        currentTarget: target,
+        bubbles: true,
+        defaultPrevented,
+        isTrusted: false,
+        timeStamp: Date.now(),
+        nativeEvent: { type },
+        preventDefault() {
+            defaultPrevented = true;
+            event.defaultPrevented = true;
+        },
+        isDefaultPrevented: () => defaultPrevented,
+        stopPropagation() {
+            propagationStopped = true;
+        },
+        isPropagationStopped: () => propagationStopped,
+        persist() {},
+    };
+    if (KEY_EVENTS.includes(type)) {
+        event.key = typeof args[0] === "string" ? args[0] : "Enter";
+        event.code =
+            event.key.length === 1
+                ? `Key${event.key.toUpperCase()}`
+                : event.key;
+    }
+    return event;
+}
+
+/**
+ * Wraps a host element handler so it can be called with simple arguments.
+ * A caller that already has a real event can still pass it through.
+ */
+export function adaptEventHandler(
+    handler: (event: unknown) => unknown,
+    element: HostElementInfo,
+    eventProp: string
+): (...args: unknown[]) => unknown {
+    return (...args) =>
+        isEventLike(args[0])
+            ? handler(args[0])
+            : handler(createSyntheticEvent(element, eventProp, args));
+}
@@ -0,0 +1,284 @@
+// src/langact/executor.ts
+//
+// Runs the actions chosen by the model. A single `{actionId, parameters}`
+// reply is treated as a one-step plan, so both shapes share one code path.
+import type {
+    ActionRegistry,
+    ActionRegistryEntry,
+    SemanticStructure,
+} from "./Langact";
+import { validateParameters } from "./schema";
+import { diffSemanticStructure, type StructureChange } from "./diff";
+
+export type PlanStep = {
+    actionId: string;
+    parameters?: unknown[];
+    description?: string;
+};
+
+export type StepStatus =
+    | "pending"
+    | "running"
+    | "awaiting-confirmation"
+    | "done"
+    | "dry-run"
+    | "cancelled"
+    | "failed"
+    | "skipped";
+
+export type StepProgress = {
+    step: PlanStep;
+    status: StepStatus;
+    /** Id the step actually ran under, after re-resolution. */
+    resolvedId?: string;
+    error?: string;
+    /** What the handler returned, once awaited. */
+    result?: unknown;
+    /** What the step changed in the UI; see `getStructure`. */
+    changes?: StructureChange[];
+};
+
+export type PlanResult = {
+    ok: boolean;
+    progress: StepProgress[];
+};
+
+export interface PlanExecutionOptions {
+    /** Returns the registry as it is right now, not as it was at render time. */
+    getRegistry: () => ActionRegistry;
+    /** Resolves once <Langact> has rebuilt the registry after a step. */
+    waitForUpdate: () => Promise<ActionRegistry>;
+    onProgress?: (progress: StepProgress[]) => void;
+    /**
+     * Asked before a destructive action runs; resolving false cancels the
+     * step and the rest of the plan. Without it destructive steps are refused.
+     */
+    confirm?: (entry: ActionRegistryEntry, args: unknown[]) => Promise<boolean>;
+    /** Resolve and validate every step but run none of them. */
+    dryRun?: boolean;
+    /**
+     * The UI structure as it is right now. When given, each step waits for
+     * the UI to settle and records what it changed.
+     */
+    getStructure?: () => SemanticStructure | null;
+    /** Runs a resolved entry. Defaults to calling `entry.execute` directly. */
+    invoke?: (
+        entry: ActionRegistryEntry,
+        args: unknown[]
+    ) => unknown | Promise<unknown>;
+}
+
+// Where a step pointed when the plan was made, so it can be found again after
+// earlier steps have changed the tree.
+type StepTarget = Pick<
+    ActionRegistryEntry,
+    "component" | "event" | "path" | "semanticId"
+>;
+
+/**
+ * Extracts plan steps from a parsed model reply. Accepts `{steps: [...]}`,
+ * a bare array of steps, or a single `{actionId, parameters}` object.
+ */
+export function toPlanSteps(reply: unknown): PlanStep[] {
+    const rawSteps = Array.isArray(reply)
+        ? reply
+        : reply && typeof reply === "object" && "steps" in reply
+        ? (reply as { steps: unknown }).steps
+        : [reply];
+    if (!Array.isArray(rawSteps)) return [];
+    return rawSteps
+        .filter(
+            (step): step is Record<string, unknown> =>
+                !!step && typeof step === "object" && "actionId" in step
+        )
+        .map((step) => ({
+            actionId: String(step.actionId),
+            parameters: step.parameters as unknown[] | undefined,
+            description:
+                typeof step.description === "string"
+                    ? step.description
+                    : undefined,
+        }))
+        .filter((step) => step.actionId && step.actionId !== "none");
+}
+
+function resolveTarget(
+    registry: ActionRegistry,
+    actionId: string,
+    target: StepTarget | undefined
+): ActionRegistryEntry | undefined {
+    const current = registry[actionId];
+    if (!target) return current;
+    if (
+        current &&
+        current.event === target.event &&
+        current.path === target.path
+    ) {
+        return current;
+    }
+    const entries = Object.values(registry);
+    return (
+        entries.find(
+            (entry) =>
+                entry.event === target.event &&
+                entry.path === target.path &&
+                entry.semanticId === target.semanticId
+        ) ??
+        entries.find(
+            (entry) =>
+                entry.event === target.event &&
+                entry.component === target.component &&
+                entry.semanticId !== "" &&
+                entry.semanticId === target.semanticId
+        )
+    );
+}
+
+type StepOutcome = { status: StepStatus; error?: string; result?: unknown };
+
+// Validates, confirms and runs a single resolved step.
+async function runStep(
+    entry: ActionRegistryEntry | undefined,
+    step: PlanStep,
+    {
+        confirm,
+        dryRun,
+        invoke,
+        onAwaitConfirmation,
+    }: Pick<PlanExecutionOptions, "confirm" | "dryRun" | "invoke"> & {
+        onAwaitConfirmation: () => void;
+    }
+): Promise<StepOutcome> {
+    if (!entry) {
+        return {
+            status: "failed",
+            error: `Action ${step.actionId} is not available`,
+        };
+    }
+    const validation = validateParameters(
+        entry.parameterSchema,
+        step.parameters ?? []
+    );
+    if (!validation.valid) {
+        return {
+            status: "failed",
+            error: `Invalid parameters for ${
+                entry.id
+            }: ${validation.errors.join("; ")}`,
+        };
+    }
+    if (dryRun) {
+        return { status: "dry-run" };
+    }
+    if (entry.destructive) {
+        if (!confirm) {
+            return {
+                status: "failed",
+                error: `Action ${entry.id} is destructive and needs confirmation`,
+            };
+        }
+        onAwaitConfirmation();
+        if (!(await confirm(entry, validation.value))) {
+            return { status: "cancelled", error: `Cancelled ${entry.id}` };
+        }
+    }
+    let result: unknown;
+    try {
+        result = invoke
+            ? await invoke(entry, validation.value)
+            : await entry.execute(...validation.value);
+    } catch (err) {
+        return {
+            status: "failed",
+            error: `Action execution error: ${String(err)}`,
+        };
+    }
+    return result === undefined
+        ? { status: "done" }
+        : { status: "done", result };
+}
+
+/**
+ * Executes plan steps one at a time. After each step it waits for the
+ * registry to be rebuilt and resolves the next step against the fresh
+ * registry. Stops at the first failure and marks the remaining steps skipped.
+ * Handlers are awaited; their return values and errors end up in the
+ * progress.
+ */
+export async function executePlan(
+    steps: PlanStep[],
+    {
+        getRegistry,
+        waitForUpdate,
+        onProgress,
+        confirm,
+        dryRun = false,
+        invoke,
+        getStructure,
+    }: PlanExecutionOptions
+): Promise<PlanResult> {
+    const initialRegistry = getRegistry();
+    const targets = steps.map((step) => {
+        const entry = initialRegistry[step.actionId];
+        return entry
+            ? {
+                  component: entry.component,
+                  event: entry.event,
+                  path: entry.path,
+                  semanticId: entry.semanticId,
+              }
+            : undefined;
+    });
+    const progress: StepProgress[] = steps.map((step) => ({
+        step,
+        status: "pending",
+    }));
+    const report = (index: number, update: Partial<StepProgress>) => {
+        progress[index] = { ...progress[index], ...update };
+        onProgress?.([...progress]);
+    };
+
+    let registry = initialRegistry;
+    for (let index = 0; index < steps.length; index++) {
+        report(index, { status: "running" });
+        const before = getStructure?.();
+        const entry = resolveTarget(
+            registry,
+            steps[index].actionId,
+            targets[index]
+        );
+        const result = await runStep(entry, steps[index], {
+            confirm,
+            dryRun,
+            invoke,
+            onAwaitConfirmation: () =>
+                report(index, {
+                    status: "awaiting-confirmation",
+                    resolvedId: entry?.id,
+                }),
+        });
+        let changes: StructureChange[] | undefined;
+        if (getStructure && result.status === "done") {
+            // Measured once the UI has settled; the next step resolves
+            // against the registry rebuilt here
+            registry = await waitForUpdate();
+            changes = diffSemanticStructure(before ?? null, getStructure());
+        }
+        report(index, {
+            ...result,
+            resolvedId: entry?.id,
+            ...(changes ? { changes } : {}),
+        });
+
+        if (result.error) {
+            for (let rest = index + 1; rest < steps.length; rest++) {
+                report(rest, { status: "skipped" });
+            }
+            return { ok: false, progress };
+        }
+        if (!changes && !dryRun && index < steps.length - 1) {
+            registry = await waitForUpdate();
+        }
+    }
+    return { ok: true, progress };
+}
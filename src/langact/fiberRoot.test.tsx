@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { useState } from "react";
+import { fiberFromElement, findContentFiber } from "./fiberRoot";
+import { renderWithLangact, waitFor, type LangactHarness } from "./testing";
+
+function Counter() {
+    const [count, setCount] = useState(0);
+    return (
+        <div>
+            <span>Count: {count}</span>
+            <button onClick={() => setCount(count + 1)}>Increment</button>
+        </div>
+    );
+}
+
+// The workspace runs this file once per React build
+const build = import.meta.env.NODE_ENV;
+
+describe(`fiber root discovery (${build} React)`, () => {
+    let harness: LangactHarness | undefined;
+
+    afterEach(() => {
+        harness?.unmount();
+        harness = undefined;
+    });
+
+    it("runs against the build it is named after", async () => {
+        harness = await renderWithLangact(<Counter />);
+        const button = harness.container.querySelector("button")!;
+        // Development fibers carry debug fields that production ones lack
+        expect("_debugOwner" in fiberFromElement(button)!).toBe(
+            build !== "production"
+        );
+    });
+
+    it("finds the content rendered inside <Langact>", async () => {
+        harness = await renderWithLangact(<Counter />);
+        const container = harness.container.firstElementChild!;
+        expect(findContentFiber(container)?.elementType).toBe(Counter);
+    });
+
+    it("populates the registry", async () => {
+        harness = await renderWithLangact(<Counter />);
+        const actions = harness.langact.listActions();
+        expect(actions).not.toHaveLength(0);
+        expect(actions.map((action) => action.label)).toContain("Increment");
+    });
+
+    it("follows the current tree after updates", async () => {
+        harness = await renderWithLangact(<Counter />);
+        const [action] = harness.langact.listActions();
+        for (let i = 0; i < 3; i++) {
+            await harness.langact.execute(action.id);
+        }
+        await waitFor(() => harness!.text().includes("Count: 3"));
+        expect(harness.langact.listActions().map((a) => a.id)).toEqual([
+            action.id,
+        ]);
+    });
+});
@@ -0,0 +1,82 @@
+// src/langact/fiberRoot.ts
+//
+// Locates the fibers rendered inside `<Langact>` from its container element.
+// react-dom stores the host fiber on every DOM node it creates under a
+// randomised `__reactFiber$…` key (`__reactInternalInstance$…` before React
+// 17), in development and production builds alike.
+import type { FiberNode } from "./Langact";
+
+const FIBER_KEY_PREFIXES = ["__reactFiber$", "__reactInternalInstance$"];
+
+/**
+ * Finds the fiber of the pair `fiber`/`fiber.alternate` that is in the
+ * current tree. Child pointers of the current tree are reliable but `return`
+ * pointers are not, so the ancestor chain is only used as a route: starting
+ * from the root's current fiber, each step picks whichever alternate of the
+ * next ancestor is a child there.
+ */
+export function currentFiber(fiber: FiberNode): FiberNode {
+    const route: FiberNode[] = [];
+    let node = fiber;
+    while (node.return) {
+        route.push(node);
+        node = node.return;
+    }
+    // The host root's stateNode is the FiberRoot, which knows the current tree
+    const root = (node.stateNode as { current?: FiberNode } | null)?.current;
+    if (!root) return fiber;
+    let current: FiberNode = root;
+    for (let i = route.length - 1; i >= 0; i--) {
+        const target = route[i];
+        let child: FiberNode | null | undefined = current.child;
+        while (child && child !== target && child !== target.alternate) {
+            child = child.sibling;
+        }
+        // Unmounted or mid-update; the stored fiber is the best we have
+        if (!child) return fiber;
+        current = child;
+    }
+    return current;
+}
+
+/**
+ * The current host fiber of a DOM element rendered by React, or null. The
+ * key is set when the element is created and never moved, so it can point
+ * at either alternate.
+ */
+export function fiberFromElement(element: Element): FiberNode | null {
+    const fiberKey = Object.keys(element).find((key) =>
+        FIBER_KEY_PREFIXES.some((prefix) => key.startsWith(prefix))
+    );
+    const fiber = fiberKey
+        ? (element as unknown as Record<string, FiberNode | undefined>)[
+              fiberKey
+          ]
+        : undefined;
+    return fiber ? currentFiber(fiber) : null;
+}
+
+// React 19 renders the context itself as the provider; React 18 and earlier
+// use a separate provider type
+const PROVIDER_TYPES = [
+    Symbol.for("react.context"),
+    Symbol.for("react.provider"),
+];
+
+function isProvider(fiber: FiberNode): boolean {
+    return PROVIDER_TYPES.includes(fiber.elementType?.$$typeof);
+}
+
+/**
+ * The fiber of the content rendered inside a container element: the first
+ * child below any context providers the container wraps it in.
+ */
+export function findContentFiber(container: Element): FiberNode | null {
+    const host = fiberFromElement(container);
+    let fiber = host?.child ?? null;
+    // Providers sit between the container and the content
+    while (fiber && isProvider(fiber) && fiber.child) {
+        fiber = fiber.child;
+    }
+    return fiber;
+}
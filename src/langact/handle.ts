@@ -0,0 +1,313 @@
+// src/langact/handle.ts
+//
+// Programmatic access to a <Langact> tree, for components, tests and UIs
+// other than the CommandBar. The handle is returned by `useLangact()` and
+// through a `ref` on <Langact>, and reads the latest state on every call, so
+// it can be held on to across renders.
+import type {
+    ActionRegistry,
+    ActionRegistryEntry,
+    LLMActionMap,
+    SemanticStructure,
+} from "./Langact";
+import type { LLMProvider } from "./providers";
+import type { ActionPolicy } from "./policy";
+import type { ExecutionRecord } from "./history";
+import type { CompactionBudget } from "./compaction";
+import {
+    executePlan,
+    type PlanExecutionOptions,
+    type PlanResult,
+    type PlanStep,
+} from "./executor";
+import { CONFIDENT_MATCH_SCORE, rankActions } from "./matcher";
+import { filterByScope, findScope } from "./scopes";
+import { planCommand, replyProse, type CommandPlan } from "./command";
+import { createTurn, type ConversationTurn } from "./conversation";
+import { shouldVerify, verifyCommand, type VerifyResult } from "./verify";
+import type { RetryOptions } from "./retry";
+import type { AiStateMap } from "./state";
+
+export type ActionSummary = LLMActionMap[string] & { id: string };
+
+export type LangactSnapshot = {
+    actions: LLMActionMap;
+    semanticStructure: SemanticStructure | null;
+    /** Values published with `useAiState`, by key. */
+    state: AiStateMap;
+    history: ExecutionRecord[];
+};
+
+export type ExecuteOptions = Pick<
+    PlanExecutionOptions,
+    "confirm" | "onProgress"
+> & {
+    /** Recorded as the query in the execution journal. */
+    query?: string;
+    /** Called before a batch of steps runs: the plan, then any corrections. */
+    onStart?: (steps: PlanStep[]) => void;
+};
+
+export type CommandOptions = ExecuteOptions & {
+    /** Overrides the provider supplied by <Langact>. */
+    provider?: LLMProvider;
+    /**
+     * "local" picks the best offline match instead of asking the model;
+     * "local-first" runs a confident local match and asks the model otherwise.
+     */
+    matchMode?: "llm" | "local" | "local-first";
+    contextBudget?: CompactionBudget;
+    /** Only consider actions from this nested scope. */
+    scope?: string;
+    signal?: AbortSignal;
+    /** Receives the model's reply text as it streams in. */
+    onToken?: (text: string) => void;
+    /**
+     * Called with true as each request to the model starts, including
+     * verification rounds, and with false once it has finished.
+     */
+    onPlanning?: (planning: boolean) => void;
+    /** Timeout and retries for the model request. */
+    retry?: RetryOptions;
+    /** Earlier turns, oldest first, so the model can resolve follow-ups. */
+    history?: ConversationTurn[];
+    /**
+     * Rounds of showing the model what the actions did so it can confirm or
+     * correct them; see `verifyCommand`. 0 (default) skips the check.
+     */
+    verify?: number;
+    /** Called as each verification round starts, from 1. */
+    onVerifyRound?: (round: number) => void;
+};
+
+export type CommandResult = PlanResult & {
+    steps: PlanStep[];
+    /** The parsed model reply; absent for local matches. */
+    reply?: unknown;
+    /** Nothing ran because no action fits the command. */
+    declined: boolean;
+    /** The model's text reply, e.g. why it declined. */
+    message?: string;
+    /** The model's answer when the command was a question; nothing ran. */
+    answer?: string;
+    /** The model's check of the outcome, when `verify` was set. */
+    verification?: VerifyResult;
+};
+
+export interface LangactHandle {
+    /** Actions currently available, optionally limited to one scope. */
+    listActions: (scope?: string) => ActionSummary[];
+    /**
+     * Validates and runs one action. Destructive actions are refused unless
+     * `confirm` approves them.
+     */
+    execute: (
+        id: string,
+        parameters?: unknown[],
+        options?: ExecuteOptions
+    ) => Promise<PlanResult>;
+    /** Plans a natural-language command and runs the resulting steps. */
+    runCommand: (
+        text: string,
+        options?: CommandOptions
+    ) => Promise<CommandResult>;
+    /** Current state; the same object until something changes. */
+    getSnapshot: () => LangactSnapshot;
+    /**
+     * Called whenever the actions, structure or history change. Works with
+     * `useSyncExternalStore(handle.subscribe, handle.getSnapshot)`.
+     */
+    subscribe: (listener: () => void) => () => void;
+}
+
+// What <Langact> provides to the handle; read afresh on every call
+export type LangactHandleSource = {
+    getActionRegistry: () => ActionRegistry;
+    getLLMActionMap: () => LLMActionMap;
+    getSemanticStructure: () => SemanticStructure | null;
+    getState: () => AiStateMap;
+    getHistory: () => ExecutionRecord[];
+    subscribe: (listener: () => void) => () => void;
+    waitForRegistryUpdate: () => Promise<ActionRegistry>;
+    invokeAction: (
+        entry: ActionRegistryEntry,
+        args: unknown[],
+        meta?: { query?: string }
+    ) => Promise<unknown>;
+    provider?: LLMProvider;
+    policy?: ActionPolicy;
+};
+
+export function createLangactHandle(
+    getSource: () => LangactHandleSource
+): LangactHandle {
+    let snapshot: LangactSnapshot | null = null;
+
+    const runSteps = (
+        steps: PlanStep[],
+        { confirm, onProgress, query, onStart }: ExecuteOptions,
+        scope?: string
+    ) => {
+        const source = getSource();
+        onStart?.(steps);
+        return executePlan(steps, {
+            getRegistry: () => filterByScope(source.getActionRegistry(), scope),
+            waitForUpdate: () =>
+                source
+                    .waitForRegistryUpdate()
+                    .then((registry) => filterByScope(registry, scope)),
+            onProgress,
+            confirm,
+            dryRun: !!source.policy?.dryRun,
+            invoke: (entry, args) =>
+                source.invokeAction(entry, args, { query }),
+            // Also makes the plan resolve once the UI reflects the last step
+            getStructure: () => source.getSemanticStructure(),
+        });
+    };
+
+    return {
+        listActions(scope) {
+            return Object.entries(
+                filterByScope(getSource().getLLMActionMap(), scope)
+            ).map(([id, action]) => ({ id, ...action }));
+        },
+
+        execute(id, parameters = [], options = {}) {
+            return runSteps([{ actionId: id, parameters }], options);
+        },
+
+        async runCommand(text, options = {}) {
+            const source = getSource();
+            const { matchMode = "llm", scope } = options;
+            const llmActionMap = filterByScope(source.getLLMActionMap(), scope);
+            const provider = options.provider ?? source.provider;
+            // Reads the UI afresh, so verification rounds see its latest state
+            const plan = (
+                query: string,
+                history = options.history
+            ): Promise<CommandPlan> => {
+                if (!provider) {
+                    throw new Error(
+                        "runCommand needs an LLM provider on <Langact> or in its options"
+                    );
+                }
+                const semanticStructure = source.getSemanticStructure();
+                options.onPlanning?.(true);
+                return planCommand(
+                    query,
+                    provider,
+                    {
+                        semanticStructure: scope
+                            ? findScope(semanticStructure, scope)
+                            : semanticStructure,
+                        llmActionMap: filterByScope(
+                            source.getLLMActionMap(),
+                            scope
+                        ),
+                        state: filterByScope(source.getState(), scope),
+                        contextBudget: options.contextBudget,
+                        history,
+                    },
+                    {
+                        signal: options.signal,
+                        onToken: options.onToken,
+                        retry: options.retry,
+                    }
+                ).finally(() => options.onPlanning?.(false));
+            };
+            let steps: PlanStep[];
+            let reply: unknown;
+            let declined: boolean;
+            let message: string | undefined;
+            let answer: string | undefined;
+            const [best] =
+                matchMode === "llm" ? [] : rankActions(text, llmActionMap);
+            const local =
+                matchMode === "local" ||
+                (matchMode === "local-first" &&
+                    !!best &&
+                    best.score >= CONFIDENT_MATCH_SCORE);
+            if (local) {
+                steps = best
+                    ? [
+                          {
+                              actionId: best.id,
+                              parameters: best.parameters,
+                              description: best.action.description,
+                          },
+                      ]
+                    : [];
+                declined = !best;
+            } else {
+                ({ steps, reply, declined, message, answer } = await plan(
+                    text
+                ));
+            }
+            if (steps.length === 0) {
+                return {
+                    ok: false,
+                    progress: [],
+                    steps,
+                    reply,
+                    declined,
+                    message,
+                    answer,
+                };
+            }
+            const executeOptions = { ...options, query: options.query ?? text };
+            const result = await runSteps(steps, executeOptions, scope);
+            const rounds = options.verify ?? 0;
+            if (local || rounds <= 0 || !shouldVerify(result.progress)) {
+                return { ...result, steps, reply, declined: false, message };
+            }
+            const verification = await verifyCommand(
+                [
+                    ...(options.history ?? []),
+                    createTurn(
+                        text,
+                        replyProse(message ?? ""),
+                        result.progress
+                    ),
+                ],
+                {
+                    rounds,
+                    plan,
+                    execute: (corrections) =>
+                        runSteps(corrections, executeOptions, scope),
+                    onRound: options.onVerifyRound,
+                }
+            );
+            return {
+                ...result,
+                steps,
+                reply,
+                declined: false,
+                message,
+                verification,
+            };
+        },
+
+        getSnapshot() {
+            const source = getSource();
+            const actions = source.getLLMActionMap();
+            const semanticStructure = source.getSemanticStructure();
+            const state = source.getState();
+            const history = source.getHistory();
+            if (
+                !snapshot ||
+                snapshot.actions !== actions ||
+                snapshot.semanticStructure !== semanticStructure ||
+                snapshot.state !== state ||
+                snapshot.history !== history
+            ) {
+                snapshot = { actions, semanticStructure, state, history };
+            }
+            return snapshot;
+        },
+
+        subscribe(listener) {
+            return getSource().subscribe(listener);
+        },
+    };
+}
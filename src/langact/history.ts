@@ -0,0 +1,136 @@
+// src/langact/history.ts
+//
+// Execution journal kept by <Langact>: one record per action invoked through
+// the registry, with UI snapshots around it and an optional inverse handler.
+import type { ActionRegistryEntry, SemanticStructure } from "./Langact";
+
+export type UndoHandler = (info: {
+    parameters: unknown[];
+    result: unknown;
+}) => unknown;
+
+export type ExecutionOutcome = "success" | "error" | "undone";
+
+export type ExecutionRecord = {
+    id: number;
+    query?: string;
+    actionId: string;
+    description: string;
+    parameters: unknown[];
+    timestamp: number;
+    outcome: ExecutionOutcome;
+    error?: string;
+    result?: unknown;
+    /** Semantic structure just before the action ran. */
+    before: SemanticStructure | null;
+    /** Semantic structure after the registry rebuilt, null until then. */
+    after: SemanticStructure | null;
+    undoable: boolean;
+};
+
+export interface ExecutionJournal {
+    records: () => ExecutionRecord[];
+    append: (
+        entry: ActionRegistryEntry,
+        record: Omit<
+            ExecutionRecord,
+            "id" | "actionId" | "description" | "undoable"
+        >
+    ) => ExecutionRecord;
+    update: (id: number, changes: Partial<ExecutionRecord>) => void;
+    /** Most recent successful record that has an inverse handler. */
+    lastUndoable: () => ExecutionRecord | undefined;
+    /**
+     * Runs the inverse handler of a record and marks it undone once it has
+     * finished. Rejects, leaving the record as it was, if the handler fails.
+     */
+    undo: (id: number) => Promise<ExecutionRecord>;
+    /** Changes the cap, dropping the oldest records beyond it. */
+    setLimit: (limit: number) => void;
+    subscribe: (listener: (records: ExecutionRecord[]) => void) => () => void;
+}
+
+/**
+ * Creates an in-memory journal capped at `limit` records (oldest dropped
+ * first). Inverse handlers are kept outside the records so they stay plain,
+ * serialisable data.
+ */
+export function createExecutionJournal(limit = 100): ExecutionJournal {
+    let records: ExecutionRecord[] = [];
+    let nextId = 1;
+    const undoHandlers = new Map<number, UndoHandler>();
+    const listeners = new Set<(records: ExecutionRecord[]) => void>();
+
+    const commit = (next: ExecutionRecord[]) => {
+        const dropped = next.slice(0, Math.max(0, next.length - limit));
+        dropped.forEach((record) => undoHandlers.delete(record.id));
+        records = next.slice(-limit);
+        listeners.forEach((listener) => listener(records));
+    };
+
+    const journal: ExecutionJournal = {
+        records: () => records,
+        append(entry, record) {
+            const full: ExecutionRecord = {
+                ...record,
+                id: nextId++,
+                actionId: entry.id,
+                description: entry.description,
+                undoable: !!entry.undo && record.outcome === "success",
+            };
+            if (full.undoable && entry.undo) {
+                undoHandlers.set(full.id, entry.undo);
+            }
+            commit([...records, full]);
+            return full;
+        },
+        update(id, changes) {
+            commit(
+                records.map((record) =>
+                    record.id === id ? { ...record, ...changes } : record
+                )
+            );
+        },
+        lastUndoable() {
+            for (let i = records.length - 1; i >= 0; i--) {
+                const record = records[i];
+                if (record.undoable && record.outcome === "success") {
+                    return record;
+                }
+            }
+            return undefined;
+        },
+        async undo(id) {
+            const record = records.find((r) => r.id === id);
+            const handler = undoHandlers.get(id);
+            if (!record || !handler || record.outcome !== "success") {
+                throw new Error(`Execution ${id} cannot be undone`);
+            }
+            // Taken out while it runs, so the same record is not undone twice
+            undoHandlers.delete(id);
+            try {
+                await handler({
+                    parameters: record.parameters,
+                    result: record.result,
+                });
+            } catch (err) {
+                undoHandlers.set(id, handler);
+                throw err;
+            }
+            const undone = { ...record, outcome: "undone" as const };
+            journal.update(id, { outcome: "undone", undoable: false });
+            return undone;
+        },
+        setLimit(next) {
+            limit = next;
+            if (records.length > limit) commit(records);
+        },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => {
+                listeners.delete(listener);
+            };
+        },
+    };
+    return journal;
+}
@@ -0,0 +1,176 @@
+// src/langact/labels.ts
+//
+// Accessible names and nearby context for actionable fibers. An icon-only
+// delete button says nothing by itself; the title of the row it sits in is
+// what tells the model which item it deletes.
+import type { FiberNode } from "./Langact";
+import { isIgnored } from "./redaction";
+
+export type ActionLabels = {
+    /** Accessible name: aria-label, descendant text, title or placeholder. */
+    label?: string;
+    /** Text of the nearest labelled ancestor or sibling. */
+    context?: string;
+};
+
+const MAX_LABEL_LENGTH = 80;
+// How many ancestor levels are searched for context
+const MAX_CONTEXT_DEPTH = 3;
+const FORM_FIELDS = ["input", "textarea", "select"];
+
+function propsOf(fiber: FiberNode): unknown {
+    return fiber.props ?? fiber.memoizedProps ?? fiber.pendingProps;
+}
+
+function clean(text: string): string {
+    const collapsed = text.replace(/\s+/g, " ").trim();
+    return collapsed.length > MAX_LABEL_LENGTH
+        ? collapsed.slice(0, MAX_LABEL_LENGTH - 1) + "…"
+        : collapsed;
+}
+
+function isHandlerProp(props: Record<string, unknown>, key: string): boolean {
+    return key.startsWith("on") && typeof props[key] === "function";
+}
+
+// Whether any fiber in the subtree has an event handler
+function hasHandlers(fiber: FiberNode): boolean {
+    const props = propsOf(fiber);
+    if (props && typeof props === "object") {
+        const p = props as Record<string, unknown>;
+        if (Object.keys(p).some((key) => isHandlerProp(p, key))) return true;
+    }
+    let child = fiber.child;
+    while (child) {
+        if (hasHandlers(child)) return true;
+        child = child.sibling;
+    }
+    return false;
+}
+
+function classNameOf(fiber: FiberNode): unknown {
+    const props = propsOf(fiber);
+    return props && typeof props === "object"
+        ? (props as Record<string, unknown>).className
+        : undefined;
+}
+
+// Siblings that can label an element: plain text and form fields, but not
+// peers of the same type (other rows of a list) or other interactive blocks
+function canLabel(sibling: FiberNode, branch: FiberNode): boolean {
+    if (sibling.elementType === branch.elementType) {
+        const isPeer =
+            typeof branch.elementType !== "string" ||
+            classNameOf(sibling) === classNameOf(branch);
+        if (isPeer) return false;
+    }
+    return FORM_FIELDS.includes(sibling.elementType) || !hasHandlers(sibling);
+}
+
+function stringProp(props: Record<string, unknown>, name: string): string {
+    const value = props[name];
+    return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Visible text of a fiber subtree. Hidden subtrees are skipped and an
+ * aria-label stands in for the subtree it labels.
+ */
+export function textOf(fiber: FiberNode | null | undefined): string {
+    if (!fiber) return "";
+    const props = propsOf(fiber);
+    // Text fibers carry their string as props
+    if (typeof props === "string" || typeof props === "number") {
+        return String(props);
+    }
+    const p = (props ?? {}) as Record<string, unknown>;
+    if (p["aria-hidden"] === true || p["aria-hidden"] === "true") return "";
+    if (isIgnored(p)) return "";
+    const ariaLabel = stringProp(p, "aria-label");
+    if (ariaLabel) return ariaLabel;
+    if (fiber.elementType === "img") return stringProp(p, "alt");
+    if (FORM_FIELDS.includes(fiber.elementType)) {
+        return stringProp(p, "placeholder");
+    }
+    // A lone string child is set as textContent and gets no fiber
+    if (typeof p.children === "string" || typeof p.children === "number") {
+        return String(p.children);
+    }
+    const parts: string[] = [];
+    let child = fiber.child;
+    while (child) {
+        const text = textOf(child);
+        if (text) parts.push(text);
+        child = child.sibling;
+    }
+    return parts.join(" ");
+}
+
+/**
+ * The name a screen reader would announce for a fiber, approximately.
+ */
+export function accessibleName(fiber: FiberNode): string {
+    const p = (propsOf(fiber) ?? {}) as Record<string, unknown>;
+    if (typeof p !== "object") return "";
+    const ariaLabel = stringProp(p, "aria-label");
+    if (ariaLabel) return clean(ariaLabel);
+    if (!FORM_FIELDS.includes(fiber.elementType)) {
+        const text = clean(textOf(fiber));
+        if (text) return text;
+    }
+    for (const name of ["title", "placeholder", "alt"]) {
+        const value = stringProp(p, name);
+        if (value) return clean(value);
+    }
+    return "";
+}
+
+/**
+ * Text near a fiber: each ancestor (nearest first) is checked for an
+ * aria-label, and otherwise for the text of siblings of the branch the fiber
+ * is in.
+ * `ancestors` runs from the root down to the fiber's parent.
+ */
+export function nearbyContext(
+    fiber: FiberNode,
+    ancestors: FiberNode[]
+): string {
+    let branch = fiber;
+    for (let depth = 0; depth < MAX_CONTEXT_DEPTH; depth++) {
+        const ancestor = ancestors[ancestors.length - 1 - depth];
+        if (!ancestor) break;
+        const p = (propsOf(ancestor) ?? {}) as Record<string, unknown>;
+        const ariaLabel =
+            typeof p === "object" ? stringProp(p, "aria-label") : "";
+        if (ariaLabel) return clean(ariaLabel);
+        const parts: string[] = [];
+        let sibling = ancestor.child;
+        while (sibling) {
+            if (sibling !== branch && canLabel(sibling, branch)) {
+                const text = textOf(sibling);
+                if (text) parts.push(text);
+            }
+            sibling = sibling.sibling;
+        }
+        const text = clean(parts.join(" "));
+        if (text) return text;
+        branch = ancestor;
+    }
+    return "";
+}
+
+/**
+ * Label and context for an actionable fiber; context is omitted when it
+ * would only repeat the label.
+ */
+export function labelsFor(
+    fiber: FiberNode,
+    ancestors: FiberNode[]
+): ActionLabels {
+    const labels: ActionLabels = {};
+    const label = accessibleName(fiber);
+    if (label) labels.label = label;
+    const context = nearbyContext(fiber, ancestors);
+    if (context && context !== label) labels.context = context;
+    return labels;
+}
@@ -0,0 +1,183 @@
+// src/langact/matcher.ts
+//
+// Offline action ranking. Scores `llmActionMap` entries against a free-text
+// query without any network round-trip, so the CommandBar can suggest and run
+// actions instantly, or with no LLM configured at all.
+import type { LLMActionMap } from "./Langact";
+
+type ActionMapEntry = LLMActionMap[string];
+
+export type RankedAction = {
+    id: string;
+    score: number;
+    action: ActionMapEntry;
+    /** Arguments pulled out of the query (quoted strings, numbers). */
+    parameters: unknown[];
+};
+
+// Local matches scoring at least this run without asking the model in
+// "local-first" mode
+export const CONFIDENT_MATCH_SCORE = 0.75;
+
+export interface RankOptions {
+    limit?: number;
+    /** Candidates scoring below this (0..1) are dropped. */
+    minScore?: number;
+}
+
+// Query words that should also match the way handlers are usually named
+const SYNONYMS: Record<string, string[]> = {
+    delete: ["remove", "ondelete", "trash", "clear"],
+    remove: ["delete", "ondelete"],
+    add: ["create", "new", "onadd"],
+    create: ["add", "new"],
+    type: ["onchange", "oninput", "input", "fill", "value"],
+    fill: ["onchange", "oninput", "input", "type"],
+    write: ["onchange", "oninput", "input"],
+    press: ["onkeydown", "key", "onclick"],
+    enter: ["onkeydown", "key"],
+    click: ["onclick", "press", "button"],
+    submit: ["onsubmit", "form", "send"],
+    toggle: ["onchange", "checkbox", "check"],
+};
+
+// Quoted text, e.g. 'buy milk' or "buy milk", but not apostrophes in words
+const QUOTED = /(?:^|\s)["'“‘]([^"'”’]+)["'”’](?=$|[\s.,!?])/g;
+
+const FIELD_WEIGHTS = {
+    description: 1,
+    label: 0.9,
+    context: 0.6,
+    component: 0.7,
+    identifying: 0.6,
+    event: 0.5,
+    path: 0.2,
+};
+
+function tokenize(text: string): string[] {
+    return text
+        .replace(/([a-z])([A-Z])/g, "$1 $2")
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+}
+
+// 1 for an exact word, less for prefixes, substrings and in-order subsequences
+function matchToken(token: string, words: string[]): number {
+    let best = 0;
+    for (const word of words) {
+        if (word === token) return 1;
+        if (word.startsWith(token) || token.startsWith(word)) {
+            const overlap =
+                Math.min(word.length, token.length) /
+                Math.max(word.length, token.length);
+            best = Math.max(best, 0.4 + 0.5 * overlap);
+        } else if (word.includes(token) && token.length > 2) {
+            best = Math.max(best, 0.5);
+        } else if (token.length > 3 && isSubsequence(token, word)) {
+            best = Math.max(best, 0.3);
+        }
+    }
+    return best;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+    let i = 0;
+    for (const char of haystack) {
+        if (char === needle[i]) i++;
+        if (i === needle.length) return true;
+    }
+    return false;
+}
+
+/**
+ * Text fields an entry is searchable by, with their weights.
+ */
+export function searchableFields(
+    action: ActionMapEntry
+): Array<{ words: string[]; weight: number }> {
+    const identifying = Object.values(action.identifyingProps ?? {})
+        .filter((value) => typeof value !== "object")
+        .map(String)
+        .join(" ");
+    return [
+        {
+            words: tokenize(action.description),
+            weight: FIELD_WEIGHTS.description,
+        },
+        { words: tokenize(action.label ?? ""), weight: FIELD_WEIGHTS.label },
+        {
+            words: tokenize(action.context ?? ""),
+            weight: FIELD_WEIGHTS.context,
+        },
+        { words: tokenize(action.component), weight: FIELD_WEIGHTS.component },
+        { words: tokenize(identifying), weight: FIELD_WEIGHTS.identifying },
+        {
+            words: [action.event.toLowerCase(), ...tokenize(action.event)],
+            weight: FIELD_WEIGHTS.event,
+        },
+        { words: tokenize(action.path), weight: FIELD_WEIGHTS.path },
+    ];
+}
+
+/**
+ * Pulls likely arguments out of a query: quoted strings first, then bare
+ * numbers, in the order they appear.
+ */
+export function extractArguments(query: string): unknown[] {
+    const quoted = Array.from(query.matchAll(QUOTED)).map((match) => match[1]);
+    if (quoted.length > 0) return quoted;
+    return Array.from(query.matchAll(/\b\d+(?:\.\d+)?\b/g)).map((match) =>
+        Number(match[0])
+    );
+}
+
+/**
+ * Ranks actions for a query. Each query word is scored against every field
+ * (and its synonyms) and the best weighted match counts; the total is
+ * normalised to 0..1 by the number of query words.
+ */
+export function rankActions(
+    query: string,
+    llmActionMap: LLMActionMap,
+    { limit = 5, minScore = 0.25 }: RankOptions = {}
+): RankedAction[] {
+    // Quoted text is an argument, not something to match against
+    const tokens = tokenize(query.replace(QUOTED, " "));
+    if (tokens.length === 0) return [];
+    const parameters = extractArguments(query);
+
+    return Object.entries(llmActionMap)
+        .map(([id, action]) => {
+            const fields = searchableFields(action);
+            const total = tokens.reduce((sum, token) => {
+                const variants = [token, ...(SYNONYMS[token] ?? [])];
+                let best = 0;
+                for (const field of fields) {
+                    for (const [index, variant] of variants.entries()) {
+                        // Synonyms count a little less than the word itself
+                        const factor = index === 0 ? 1 : 0.8;
+                        best = Math.max(
+                            best,
+                            matchToken(variant, field.words) *
+                                field.weight *
+                                factor
+                        );
+                    }
+                }
+                return sum + best;
+            }, 0);
+            const schema = action.parameterSchema;
+            return {
+                id,
+                action,
+                score: total / tokens.length,
+                parameters: schema.additionalItems
+                    ? parameters
+                    : parameters.slice(0, schema.items.length),
+            };
+        })
+        .filter((ranked) => ranked.score >= minScore)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
@@ -0,0 +1,136 @@
+// src/langact/mcpBridge.ts
+//
+// Browser half of the Model Context Protocol bridge. The page connects to the
+// local server in `server/mcp.ts` over WebSocket, keeps it up to date with the
+// action map and semantic structure, and runs the tool calls it forwards.
+// The server speaks MCP to agents and editors; this side only speaks the
+// small message protocol below.
+import type {
+    ActionRegistryEntry,
+    LLMActionMap,
+    SemanticStructure,
+} from "./Langact";
+import type { LangactHandle } from "./handle";
+
+export const DEFAULT_MCP_BRIDGE_URL = "ws://localhost:3939";
+
+// Page -> server
+export type BridgeMessage =
+    | {
+          type: "state";
+          llmActionMap: LLMActionMap;
+          semanticStructure: SemanticStructure | null;
+      }
+    | { type: "result"; id: number; ok: boolean; text: string };
+
+// Server -> page
+export type BridgeCall = {
+    type: "call";
+    id: number;
+    actionId: string;
+    parameters: unknown[];
+};
+
+export type McpBridgeOptions = {
+    url?: string;
+    /** Sent to the server as the `token` query parameter (LANGACT_MCP_TOKEN). */
+    token?: string;
+    /**
+     * Asked before a destructive action requested by an agent runs. Defaults
+     * to a `window.confirm` prompt.
+     */
+    confirm?: (entry: ActionRegistryEntry, args: unknown[]) => Promise<boolean>;
+    /** First reconnect delay in ms; doubles up to 30s while the server is down. */
+    reconnectDelay?: number;
+};
+
+const MAX_RECONNECT_DELAY = 30000;
+
+const confirmInPage = async (entry: ActionRegistryEntry) =>
+    window.confirm(`An agent wants to run: ${entry.description}. Allow?`);
+
+/**
+ * Connects a <Langact> tree to the local MCP server and reconnects until the
+ * returned function is called.
+ */
+export function connectMcpBridge(
+    langact: LangactHandle,
+    {
+        url = DEFAULT_MCP_BRIDGE_URL,
+        token,
+        confirm = confirmInPage,
+        reconnectDelay = 1000,
+    }: McpBridgeOptions = {}
+): () => void {
+    let socket: WebSocket | null = null;
+    let closed = false;
+    let delay = reconnectDelay;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+
+    const send = (message: BridgeMessage) => {
+        if (socket?.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(message));
+        }
+    };
+
+    const sendState = () => {
+        const { actions, semanticStructure } = langact.getSnapshot();
+        send({ type: "state", llmActionMap: actions, semanticStructure });
+    };
+
+    const runCall = async ({ id, actionId, parameters }: BridgeCall) => {
+        try {
+            const result = await langact.execute(actionId, parameters, {
+                confirm,
+                query: `mcp: ${actionId}`,
+            });
+            const failure = result.progress.find((step) => step.error);
+            send({
+                type: "result",
+                id,
+                ok: result.ok,
+                text: failure?.error ?? `Ran ${actionId}`,
+            });
+        } catch (err) {
+            send({ type: "result", id, ok: false, text: String(err) });
+        }
+    };
+
+    const address = new URL(url);
+    if (token) address.searchParams.set("token", token);
+
+    const connect = () => {
+        socket = new WebSocket(address);
+        socket.addEventListener("open", () => {
+            delay = reconnectDelay;
+            sendState();
+        });
+        socket.addEventListener("message", (event) => {
+            try {
+                const message = JSON.parse(String(event.data)) as BridgeCall;
+                if (message.type === "call") runCall(message);
+            } catch (err) {
+                console.error("Langact MCP bridge: bad message", err);
+            }
+        });
+        // Errors are followed by "close", which retries; the server is
+        // often simply not running yet
+        socket.addEventListener("error", () => {});
+        socket.addEventListener("close", () => {
+            socket = null;
+            if (closed) return;
+            retry = setTimeout(connect, delay);
+            delay = Math.min(delay * 2, MAX_RECONNECT_DELAY);
+        });
+    };
+
+    const unsubscribe = langact.subscribe(sendState);
+    connect();
+
+    return () => {
+        closed = true;
+        clearTimeout(retry);
+        unsubscribe();
+        socket?.close();
+    };
+}
@@ -0,0 +1,87 @@
+// src/langact/policy.ts
+//
+// Safety policy configured on <Langact>: which actions the model may see at
+// all, which ones need the user's confirmation, and whether anything runs.
+import type { ActionRegistry, ActionRegistryEntry } from "./Langact";
+
+/**
+ * Selects actions. A string is an id glob (`*` matches any run of
+ * characters, e.g. "todo.*"), a RegExp is tested against the id, and an
+ * object matches when every field it sets matches.
+ */
+export type ActionMatcher =
+    | string
+    | RegExp
+    | {
+          id?: string | RegExp;
+          component?: string | RegExp;
+          event?: string | RegExp;
+      };
+
+export interface ActionPolicy {
+    /** When set, only matching actions are exposed to the model. */
+    allow?: ActionMatcher[];
+    /** Matching actions are never exposed to the model. Wins over `allow`. */
+    deny?: ActionMatcher[];
+    /** Matching actions need confirmation before they run. */
+    destructive?: ActionMatcher[];
+    /** Report what would run without running anything. */
+    dryRun?: boolean;
+}
+
+function matchesPattern(value: string, pattern: string | RegExp): boolean {
+    if (pattern instanceof RegExp) return pattern.test(value);
+    if (!pattern.includes("*")) return value === pattern;
+    const source = pattern
+        .split("*")
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+        .join(".*");
+    return new RegExp(`^${source}$`).test(value);
+}
+
+export function matchesAction(
+    entry: ActionRegistryEntry,
+    matcher: ActionMatcher
+): boolean {
+    if (typeof matcher === "string" || matcher instanceof RegExp) {
+        return matchesPattern(entry.id, matcher);
+    }
+    return (
+        (matcher.id === undefined || matchesPattern(entry.id, matcher.id)) &&
+        (matcher.component === undefined ||
+            matchesPattern(entry.component, matcher.component)) &&
+        (matcher.event === undefined ||
+            matchesPattern(entry.event, matcher.event))
+    );
+}
+
+/**
+ * Removes actions hidden by allow/deny lists and marks destructive ones.
+ * Entries already annotated as destructive (via `useAiAction` or a
+ * `data-langact-destructive` prop) stay destructive.
+ */
+export function applyPolicy(
+    registry: ActionRegistry,
+    policy: ActionPolicy | undefined
+): ActionRegistry {
+    if (!policy) return registry;
+    const filtered: ActionRegistry = {};
+    Object.values(registry).forEach((entry) => {
+        if (
+            policy.allow &&
+            !policy.allow.some((matcher) => matchesAction(entry, matcher))
+        ) {
+            return;
+        }
+        if (policy.deny?.some((matcher) => matchesAction(entry, matcher))) {
+            return;
+        }
+        const destructive =
+            entry.destructive ||
+            !!policy.destructive?.some((matcher) =>
+                matchesAction(entry, matcher)
+            );
+        filtered[entry.id] = destructive ? { ...entry, destructive } : entry;
+    });
+    return filtered;
+}
@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+    createOllamaProvider,
+    createRelayProvider,
+    LLMAPIError,
+} from "./providers";
+
+// Answers every request with `body` and `status`
+function stubFetch(status: number, statusText: string, body: string) {
+    vi.stubGlobal(
+        "fetch",
+        vi.fn(async () => new Response(body, { status, statusText }))
+    );
+}
+
+const messages = [{ role: "user" as const, content: "hi" }];
+
+describe("model API errors", () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
+
+    it("include the reason from the relay's error body", async () => {
+        stubFetch(
+            400,
+            "Bad Request",
+            JSON.stringify({ error: { message: "Model x is not allowed" } })
+        );
+
+        const error = await createRelayProvider({ model: "x" })
+            .complete({ messages })
+            .catch((err: unknown) => err);
+
+        expect(error).toBeInstanceOf(LLMAPIError);
+        expect((error as LLMAPIError).status).toBe(400);
+        expect((error as LLMAPIError).detail).toBe("Model x is not allowed");
+        expect((error as LLMAPIError).message).toBe(
+            "LLM API error: 400 Bad Request: Model x is not allowed"
+        );
+    });
+
+    it("read plain string errors", async () => {
+        stubFetch(
+            404,
+            "Not Found",
+            JSON.stringify({ error: "model not found" })
+        );
+
+        await expect(
+            createOllamaProvider({ model: "x" }).complete({ messages })
+        ).rejects.toThrow("LLM API error: 404 Not Found: model not found");
+    });
+
+    it("fall back to the status when the body has no reason", async () => {
+        stubFetch(502, "Bad Gateway", "<html>upstream down</html>");
+
+        await expect(
+            createRelayProvider().complete({ messages })
+        ).rejects.toThrow(/^LLM API error: 502 Bad Gateway$/);
+    });
+});
@@ -0,0 +1,515 @@
+// src/langact/providers.ts
+//
+// Pluggable LLM provider layer. A provider turns a list of chat messages into
+// the model's reply; CommandBar and <Langact> accept any object implementing
+// `LLMProvider`, so swapping models per environment needs no component forks.
+import {
+    toAnthropicTools,
+    toOpenAITools,
+    type ToolCall,
+    type ToolDefinition,
+} from "./tools";
+
+export type LLMMessage = {
+    role: "system" | "user" | "assistant";
+    content: string;
+};
+
+export type LLMRequest = {
+    messages: LLMMessage[];
+    /** Offered as native tools by providers that support them. */
+    tools?: ToolDefinition[];
+    signal?: AbortSignal;
+    /**
+     * Receives the reply text piece by piece as it arrives. Providers that can
+     * stream ask for a streamed response when this is given; the full reply is
+     * still returned at the end.
+     */
+    onToken?: (text: string) => void;
+};
+
+export type LLMResponse = {
+    content: string;
+    /** Structured tool calls, in the order the model made them. */
+    toolCalls?: ToolCall[];
+    raw?: unknown;
+};
+
+export interface LLMProvider {
+    name: string;
+    /**
+     * Whether `complete` passes `tools` to the model. Without it the actions
+     * are described in the prompt and the reply is parsed as JSON.
+     */
+    supportsTools?: boolean;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+type OpenAICompatibleOptions = {
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    headers?: Record<string, string>;
+    /** Extra body fields merged into every request (temperature, etc.). */
+    body?: Record<string, unknown>;
+};
+
+type AnthropicOptions = {
+    apiKey: string;
+    model: string;
+    baseUrl?: string;
+    maxTokens?: number;
+    version?: string;
+    headers?: Record<string, string>;
+};
+
+type RelayProviderOptions = {
+    /** Where the relay is mounted, without `/chat/completions`. */
+    url?: string;
+    /** One of the relay's allowed models; the relay's default if omitted. */
+    model?: string;
+};
+
+type OllamaOptions = {
+    model: string;
+    baseUrl?: string;
+};
+
+type AnthropicBlock = {
+    type: string;
+    text?: string;
+    id?: string;
+    name?: string;
+    input?: Record<string, unknown>;
+};
+
+// Path of the chat relay in server/relay.ts, also served by `npm run dev`
+export const DEFAULT_RELAY_URL = "/api/langact";
+
+type MockReply = string | LLMResponse;
+
+type MockResponder =
+    | MockReply
+    | MockReply[]
+    | ((request: LLMRequest, callIndex: number) => MockReply);
+
+/**
+ * A non-2xx response from a model API. `retryAfter` is the wait in ms the
+ * server asked for, if any; `detail` is the reason given in the error body,
+ * e.g. the relay's "Model X is not allowed".
+ */
+export class LLMAPIError extends Error {
+    status: number;
+    retryAfter?: number;
+    detail?: string;
+    constructor(
+        status: number,
+        statusText: string,
+        retryAfter?: number,
+        detail?: string
+    ) {
+        super(
+            `LLM API error: ${status} ${statusText}${
+                detail ? `: ${detail}` : ""
+            }`
+        );
+        this.name = "LLMAPIError";
+        this.status = status;
+        this.retryAfter = retryAfter;
+        this.detail = detail;
+    }
+}
+
+// The reason in an error body: {"error": {"message": ...}} from OpenAI-style
+// APIs, Anthropic and the relay, or {"error": "..."} from Ollama
+async function errorDetail(response: Response): Promise<string | undefined> {
+    try {
+        const { error } = (await response.json()) as { error?: unknown };
+        const message =
+            typeof error === "string"
+                ? error
+                : (error as { message?: unknown } | null)?.message;
+        return typeof message === "string" && message.trim()
+            ? message.trim()
+            : undefined;
+    } catch {
+        // Not JSON, or no body
+        return undefined;
+    }
+}
+
+async function post(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+): Promise<Response> {
+    const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...headers },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok) {
+        const retryAfter = Number(response.headers.get("retry-after"));
+        throw new LLMAPIError(
+            response.status,
+            response.statusText,
+            retryAfter > 0 ? retryAfter * 1000 : undefined,
+            await errorDetail(response)
+        );
+    }
+    return response;
+}
+
+async function postJSON(
+    url: string,
+    headers: Record<string, string>,
+    body: unknown,
+    signal?: AbortSignal
+): Promise<unknown> {
+    return (await post(url, headers, body, signal)).json();
+}
+
+// Lines of a streamed response body, as they arrive
+async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) {
+        yield* (await response.text()).split("\n");
+        return;
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        yield* lines;
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+}
+
+// JSON payloads of a server-sent events stream, or of newline-delimited JSON
+async function* readEvents(
+    response: Response,
+    format: "sse" | "ndjson"
+): AsyncGenerator<Record<string, unknown>> {
+    for await (const line of readLines(response)) {
+        let data = line.trim();
+        if (format === "sse") {
+            // Skip "event:" lines and keep-alive comments
+            if (!data.startsWith("data:")) continue;
+            data = data.slice(5).trim();
+            if (data === "[DONE]") return;
+        }
+        if (!data) continue;
+        const event = JSON.parse(data) as Record<string, unknown>;
+        const error = event.error as { message?: string } | undefined;
+        if (error) {
+            throw new Error(
+                `LLM API error: ${error.message ?? "stream failed"}`
+            );
+        }
+        yield event;
+    }
+}
+
+// Tool-call arguments arrive as a JSON string from OpenAI-style APIs
+function parseArguments(value: unknown): Record<string, unknown> {
+    if (typeof value !== "string") {
+        return (value as Record<string, unknown> | null) ?? {};
+    }
+    try {
+        return JSON.parse(value) ?? {};
+    } catch {
+        return {};
+    }
+}
+
+type OpenAIToolCalls = Array<{
+    index?: number;
+    id?: string;
+    function?: { name?: string; arguments?: unknown };
+}>;
+
+// Streamed tool calls arrive in fragments keyed by index
+function mergeToolCallDeltas(
+    calls: OpenAIToolCalls,
+    deltas: OpenAIToolCalls | undefined
+): void {
+    deltas?.forEach((delta) => {
+        const call = (calls[delta.index ?? calls.length] ??= {
+            function: { name: "", arguments: "" },
+        });
+        if (delta.id) call.id = delta.id;
+        call.function!.name += delta.function?.name ?? "";
+        call.function!.arguments += String(delta.function?.arguments ?? "");
+    });
+}
+
+function fromOpenAIToolCalls(calls: OpenAIToolCalls | undefined): ToolCall[] {
+    return (calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function?.name ?? "",
+        arguments: parseArguments(call.function?.arguments),
+    }));
+}
+
+/**
+ * Adapter for any OpenAI-style `/chat/completions` endpoint
+ * (OpenAI, OpenRouter, Groq, vLLM, LM Studio, ...).
+ */
+export function createOpenAICompatibleProvider(
+    options: OpenAICompatibleOptions
+): LLMProvider {
+    const url = options.baseUrl.replace(/\/$/, "") + "/chat/completions";
+    return {
+        name: `openai-compatible:${options.model}`,
+        supportsTools: true,
+        async complete({ messages, tools, signal, onToken }) {
+            const headers: Record<string, string> = { ...options.headers };
+            if (options.apiKey) {
+                headers.Authorization = `Bearer ${options.apiKey}`;
+            }
+            const body = {
+                ...options.body,
+                model: options.model,
+                messages,
+                ...(tools?.length ? { tools: toOpenAITools(tools) } : {}),
+            };
+            if (onToken) {
+                const response = await post(
+                    url,
+                    headers,
+                    { ...body, stream: true },
+                    signal
+                );
+                let content = "";
+                const calls: OpenAIToolCalls = [];
+                for await (const chunk of readEvents(response, "sse")) {
+                    const delta = (
+                        chunk as {
+                            choices?: Array<{
+                                delta?: {
+                                    content?: string | null;
+                                    tool_calls?: OpenAIToolCalls;
+                                };
+                            }>;
+                        }
+                    ).choices?.[0]?.delta;
+                    if (delta?.content) {
+                        content += delta.content;
+                        onToken(delta.content);
+                    }
+                    mergeToolCallDeltas(calls, delta?.tool_calls);
+                }
+                return { content, toolCalls: fromOpenAIToolCalls(calls) };
+            }
+            const data = (await postJSON(url, headers, body, signal)) as {
+                choices?: Array<{
+                    message?: {
+                        content?: string | null;
+                        tool_calls?: OpenAIToolCalls;
+                    };
+                }>;
+            };
+            const message = data.choices?.[0]?.message;
+            return {
+                content: message?.content ?? "",
+                toolCalls: fromOpenAIToolCalls(message?.tool_calls),
+                raw: data,
+            };
+        },
+    };
+}
+
+/**
+ * Adapter for the Anthropic Messages API. System messages are lifted into the
+ * top-level `system` field as the API requires.
+ */
+export function createAnthropicProvider(
+    options: AnthropicOptions
+): LLMProvider {
+    const url =
+        (options.baseUrl ?? "https://api.anthropic.com/v1").replace(/\/$/, "") +
+        "/messages";
+    return {
+        name: `anthropic:${options.model}`,
+        supportsTools: true,
+        async complete({ messages, tools, signal, onToken }) {
+            const system = messages
+                .filter((m) => m.role === "system")
+                .map((m) => m.content)
+                .join("\n\n");
+            const headers = {
+                "x-api-key": options.apiKey,
+                "anthropic-version": options.version ?? "2023-06-01",
+                "anthropic-dangerous-direct-browser-access": "true",
+                ...options.headers,
+            };
+            const body = {
+                model: options.model,
+                max_tokens: options.maxTokens ?? 1024,
+                ...(system ? { system } : {}),
+                messages: messages.filter((m) => m.role !== "system"),
+                ...(tools?.length ? { tools: toAnthropicTools(tools) } : {}),
+            };
+            let data: { content?: AnthropicBlock[] };
+            if (onToken) {
+                // Rebuild the content blocks from the stream's deltas
+                const response = await post(
+                    url,
+                    headers,
+                    { ...body, stream: true },
+                    signal
+                );
+                const streamed: AnthropicBlock[] = [];
+                const inputs: string[] = [];
+                for await (const event of readEvents(response, "sse")) {
+                    const index = Number(event.index);
+                    if (event.type === "content_block_start") {
+                        streamed[index] = {
+                            ...(event.content_block as AnthropicBlock),
+                        };
+                        inputs[index] = "";
+                    } else if (event.type === "content_block_delta") {
+                        const delta = event.delta as {
+                            type: string;
+                            text?: string;
+                            partial_json?: string;
+                        };
+                        const block = streamed[index];
+                        if (!block) continue;
+                        if (delta.type === "text_delta" && delta.text) {
+                            block.text = (block.text ?? "") + delta.text;
+                            onToken(delta.text);
+                        } else if (delta.type === "input_json_delta") {
+                            inputs[index] += delta.partial_json ?? "";
+                        }
+                    }
+                }
+                streamed.forEach((block, index) => {
+                    if (block.type === "tool_use" && inputs[index]) {
+                        block.input = parseArguments(inputs[index]);
+                    }
+                });
+                data = { content: streamed.filter(Boolean) };
+            } else {
+                data = (await postJSON(url, headers, body, signal)) as {
+                    content?: AnthropicBlock[];
+                };
+            }
+            const blocks = data.content ?? [];
+            const content = blocks
+                .filter((block) => block.type === "text")
+                .map((block) => block.text ?? "")
+                .join("");
+            const toolCalls = blocks
+                .filter((block) => block.type === "tool_use")
+                .map((block) => ({
+                    id: block.id,
+                    name: block.name ?? "",
+                    arguments: block.input ?? {},
+                }));
+            return { content, toolCalls, raw: data };
+        },
+    };
+}
+
+/**
+ * Adapter for a local Ollama server (`/api/chat`).
+ */
+export function createOllamaProvider(options: OllamaOptions): LLMProvider {
+    const url =
+        (options.baseUrl ?? "http://localhost:11434").replace(/\/$/, "") +
+        "/api/chat";
+    return {
+        name: `ollama:${options.model}`,
+        supportsTools: true,
+        async complete({ messages, tools, signal, onToken }) {
+            const body = {
+                model: options.model,
+                messages,
+                stream: !!onToken,
+                ...(tools?.length ? { tools: toOpenAITools(tools) } : {}),
+            };
+            if (onToken) {
+                const response = await post(url, {}, body, signal);
+                let content = "";
+                const calls: OpenAIToolCalls = [];
+                for await (const chunk of readEvents(response, "ndjson")) {
+                    const message = chunk.message as
+                        | { content?: string; tool_calls?: OpenAIToolCalls }
+                        | undefined;
+                    if (message?.content) {
+                        content += message.content;
+                        onToken(message.content);
+                    }
+                    calls.push(...(message?.tool_calls ?? []));
+                }
+                return { content, toolCalls: fromOpenAIToolCalls(calls) };
+            }
+            const data = (await postJSON(url, {}, body, signal)) as {
+                message?: { content?: string; tool_calls?: OpenAIToolCalls };
+            };
+            return {
+                content: data.message?.content ?? "",
+                toolCalls: fromOpenAIToolCalls(data.message?.tool_calls),
+                raw: data,
+            };
+        },
+    };
+}
+
+/**
+ * Adapter for the Langact chat relay (`server/relay.ts`). The relay holds the
+ * API key and forwards requests to the real model API, so the page needs no
+ * credentials.
+ */
+export function createRelayProvider({
+    url = DEFAULT_RELAY_URL,
+    model,
+}: RelayProviderOptions = {}): LLMProvider {
+    return {
+        ...createOpenAICompatibleProvider({ baseUrl: url, model: model ?? "" }),
+        name: `relay:${model ?? "default"}`,
+    };
+}
+
+/**
+ * Deterministic in-memory provider for tests and offline demos. Accepts a
+ * fixed reply, a list of replies consumed in order (the last one repeats), or
+ * a function of the request. A reply is either text or a full response with
+ * `toolCalls`; when streaming, its text arrives as a single piece. Every
+ * request is recorded on `calls`.
+ */
+export function createMockProvider(
+    responder: MockResponder
+): LLMProvider & { calls: LLMRequest[] } {
+    const calls: LLMRequest[] = [];
+    return {
+        name: "mock",
+        supportsTools: true,
+        calls,
+        async complete(request) {
+            const callIndex = calls.length;
+            calls.push(request);
+            let reply: MockReply;
+            if (typeof responder === "function") {
+                reply = responder(request, callIndex);
+            } else if (Array.isArray(responder)) {
+                reply =
+                    responder[Math.min(callIndex, responder.length - 1)] ?? "";
+            } else {
+                reply = responder;
+            }
+            const response =
+                typeof reply === "string" ? { content: reply } : reply;
+            if (response.content) request.onToken?.(response.content);
+            return response;
+        },
+    };
+}
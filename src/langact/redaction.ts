@@ -0,0 +1,165 @@
+// src/langact/redaction.ts
+//
+// What never leaves the page. Subtrees marked `data-langact-ignore` are left
+// out of the scan entirely, values of password and other sensitive fields
+// are masked, and handler source is not kept unless asked for. Apps can add
+// their own rules, which run on the structure, action map and state before
+// <Langact> publishes them, so every prompt, handle and bridge sees the
+// redacted view.
+import type { LLMActionMap, SemanticStructure } from "./Langact";
+import type { AiStateMap } from "./state";
+
+/** Leaves an element and everything it renders out of the scan. */
+export const IGNORE_ATTRIBUTE = "data-langact-ignore";
+/** Masks an element's value, like `type="password"` does. */
+export const SENSITIVE_ATTRIBUTE = "data-langact-sensitive";
+export const REDACTED = "[redacted]";
+
+/**
+ * Matched against a field's `name`, `id` and `autoComplete` props. Strings
+ * match the whole prop, ignoring case.
+ */
+export type SensitiveField = string | RegExp;
+
+export const DEFAULT_SENSITIVE_FIELDS: SensitiveField[] = [
+    /passw(or)?d|passcode|secret|token|api.?key/i,
+    /one-time-code|^cc-|card.?number|cvc|cvv|iban|ssn/i,
+];
+
+/**
+ * A custom rule. A pattern masks matching text in every string sent to the
+ * model; a function rewrites a structure node, or drops it by returning
+ * null.
+ */
+export type RedactionRule =
+    | { pattern: RegExp; replacement?: string }
+    | ((node: SemanticStructure) => SemanticStructure | null);
+
+export interface RedactionOptions {
+    /** Extra fields to mask, on top of `DEFAULT_SENSITIVE_FIELDS`. */
+    sensitiveFields?: SensitiveField[];
+    /** Keep handler source in the registry and send it with each action. */
+    handlerSource?: boolean;
+    rules?: RedactionRule[];
+}
+
+function isMarked(props: Record<string, unknown>, attribute: string): boolean {
+    const value = props[attribute];
+    return value !== undefined && value !== false && value !== "false";
+}
+
+export function isIgnored(props: Record<string, unknown>): boolean {
+    return isMarked(props, IGNORE_ATTRIBUTE);
+}
+
+/**
+ * Whether a field's value must not be sent: password inputs, elements
+ * marked `data-langact-sensitive` and fields whose name, id or autocomplete
+ * hint matches a sensitive pattern.
+ */
+export function isSensitiveField(
+    props: Record<string, unknown>,
+    sensitiveFields: SensitiveField[] = []
+): boolean {
+    if (props.type === "password" || isMarked(props, SENSITIVE_ATTRIBUTE)) {
+        return true;
+    }
+    const hints = [props.name, props.id, props.autoComplete].filter(
+        (hint): hint is string => typeof hint === "string" && hint !== ""
+    );
+    return [...DEFAULT_SENSITIVE_FIELDS, ...sensitiveFields].some((field) =>
+        hints.some((hint) =>
+            field instanceof RegExp
+                ? field.test(hint)
+                : hint.toLowerCase() === field.toLowerCase()
+        )
+    );
+}
+
+type TextRule = { pattern: RegExp; replacement: string };
+
+function textRules(rules: RedactionRule[]): TextRule[] {
+    return rules.flatMap((rule) =>
+        typeof rule === "function"
+            ? []
+            : [
+                  {
+                      // Without the global flag only the first match is replaced
+                      pattern: rule.pattern.global
+                          ? rule.pattern
+                          : new RegExp(
+                                rule.pattern.source,
+                                rule.pattern.flags + "g"
+                            ),
+                      replacement: rule.replacement ?? REDACTED,
+                  },
+              ]
+    );
+}
+
+// Applies text rules to every string in a JSON-like value
+function redactValue<T>(value: T, rules: TextRule[]): T {
+    if (rules.length === 0) return value;
+    if (typeof value === "string") {
+        return rules.reduce(
+            (text, { pattern, replacement }) =>
+                text.replace(pattern, replacement),
+            value as string
+        ) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactValue(item, rules)) as T;
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                redactValue(item, rules),
+            ])
+        ) as T;
+    }
+    return value;
+}
+
+function applyNodeRules(
+    node: SemanticStructure,
+    rules: RedactionRule[]
+): SemanticStructure | null {
+    let result: SemanticStructure | null = node;
+    for (const rule of rules) {
+        if (typeof rule !== "function") continue;
+        result = rule(result);
+        if (!result) return null;
+    }
+    if (!result.children) return result;
+    return {
+        ...result,
+        children: result.children
+            .map((child) => applyNodeRules(child, rules))
+            .filter((child): child is SemanticStructure => child !== null),
+    };
+}
+
+/**
+ * The structure, action map and state with custom rules applied. Returns
+ * its input unchanged when there are no rules.
+ */
+export function redactSnapshot(
+    snapshot: {
+        llmActionMap: LLMActionMap;
+        semanticStructure: SemanticStructure | null;
+        state: AiStateMap;
+    },
+    { rules = [] }: RedactionOptions = {}
+): typeof snapshot {
+    if (rules.length === 0) return snapshot;
+    const text = textRules(rules);
+    const semanticStructure = snapshot.semanticStructure
+        ? applyNodeRules(snapshot.semanticStructure, rules)
+        : null;
+    return {
+        llmActionMap: redactValue(snapshot.llmActionMap, text),
+        semanticStructure: redactValue(semanticStructure, text),
+        state: redactValue(snapshot.state, text),
+    };
+}
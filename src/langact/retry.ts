@@ -0,0 +1,168 @@
+// src/langact/retry.ts
+//
+// Timeouts and retries for model requests. Free-tier models are slow and
+// often rate limited, so an attempt that goes quiet for `timeout` ms is
+// abandoned and retried with exponential backoff, as are rate limits, server
+// errors and network failures. When the reply streams, every piece of text
+// restarts the timer, so a slow but steady stream is not cut off.
+import {
+    LLMAPIError,
+    type LLMProvider,
+    type LLMRequest,
+    type LLMResponse,
+} from "./providers";
+
+export type RetryOptions = {
+    /** Ms to wait for a response, or for the next streamed piece; 0 waits forever. */
+    timeout?: number;
+    /** Further attempts after a transient failure. */
+    retries?: number;
+    /** Wait before the first retry in ms; doubles for each one after. */
+    retryDelay?: number;
+    /** Longest wait between attempts in ms, including a server's Retry-After. */
+    maxRetryDelay?: number;
+    /**
+     * Called before each retry. Text streamed by the failed attempt is not
+     * part of the final reply and should be discarded.
+     */
+    onRetry?: (attempt: number, error: unknown, delay: number) => void;
+};
+
+export const DEFAULT_TIMEOUT = 30000;
+export const DEFAULT_RETRIES = 2;
+export const DEFAULT_MAX_RETRY_DELAY = 30000;
+
+const TRANSIENT_STATUS = [408, 425, 429, 500, 502, 503, 504];
+
+export class LLMTimeoutError extends Error {
+    constructor(timeout: number) {
+        super(`The model did not respond within ${timeout / 1000}s`);
+        this.name = "LLMTimeoutError";
+    }
+}
+
+/**
+ * Whether retrying the request might succeed: timeouts, rate limits, server
+ * errors and network failures.
+ */
+export function isTransientError(err: unknown): boolean {
+    if (err instanceof LLMTimeoutError) return true;
+    if (err instanceof LLMAPIError) {
+        return TRANSIENT_STATUS.includes(err.status);
+    }
+    // fetch rejects with a TypeError when the network fails
+    return err instanceof TypeError;
+}
+
+/**
+ * Whether the request was cancelled through its signal.
+ */
+export function isAbortError(err: unknown): boolean {
+    return (err as { name?: unknown } | null)?.name === "AbortError";
+}
+
+const abortError = () =>
+    new DOMException("The request was cancelled", "AbortError");
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+// One attempt with its own signal, aborted by the caller's signal or by
+// silence. Racing the abort also covers providers that ignore the signal.
+async function attempt(
+    provider: LLMProvider,
+    { signal, onToken, ...request }: LLMRequest,
+    timeout: number
+): Promise<LLMResponse> {
+    if (signal?.aborted) throw abortError();
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+        clearTimeout(timer);
+        if (!timeout) return;
+        timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, timeout);
+    };
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const aborted = new Promise<never>((_, reject) => {
+        controller.signal.addEventListener("abort", () =>
+            reject(timedOut ? new LLMTimeoutError(timeout) : abortError())
+        );
+    });
+    restartTimer();
+    try {
+        return await Promise.race([
+            provider.complete({
+                ...request,
+                signal: controller.signal,
+                ...(onToken
+                    ? {
+                          onToken: (text: string) => {
+                              restartTimer();
+                              onToken(text);
+                          },
+                      }
+                    : {}),
+            }),
+            aborted,
+        ]);
+    } catch (err) {
+        if (timedOut) throw new LLMTimeoutError(timeout);
+        if (signal?.aborted) throw abortError();
+        throw err;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+/**
+ * `provider.complete(request)` with a timeout, retrying transient failures.
+ * Rejects with an `AbortError` as soon as `request.signal` is aborted.
+ */
+export async function completeWithRetry(
+    provider: LLMProvider,
+    request: LLMRequest,
+    {
+        timeout = DEFAULT_TIMEOUT,
+        retries = DEFAULT_RETRIES,
+        retryDelay = 1000,
+        maxRetryDelay = DEFAULT_MAX_RETRY_DELAY,
+        onRetry,
+    }: RetryOptions = {}
+): Promise<LLMResponse> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await attempt(provider, request, timeout);
+        } catch (err) {
+            if (retry >= retries || !isTransientError(err)) throw err;
+            // A server asking for a long wait would otherwise stall the UI
+            const delay = Math.min(
+                (err instanceof LLMAPIError && err.retryAfter) ||
+                    retryDelay * 2 ** retry,
+                maxRetryDelay
+            );
+            onRetry?.(retry + 1, err, delay);
+            await sleep(delay, request.signal);
+        }
+    }
+}
@@ -0,0 +1,141 @@
+// src/langact/scan.bench.ts
+//
+// Scan-time benchmark on a synthetic fiber tree of a few thousand nodes:
+// rebuilding everything versus an incremental re-scan after a commit that
+// touched a single row. Run with `npm run bench`.
+import { forEachChangedFiber } from "./commits";
+import type { FiberNode } from "./Langact";
+import { createScanCache, scanFiberTree, type ScanCache } from "./scan";
+
+const ROWS = 1000;
+const RUNS = 20;
+
+// Stand-ins for components; only their names matter to the scanner
+function List() {}
+function Row() {}
+
+function fiber(
+    elementType: unknown,
+    props: Record<string, unknown>,
+    children: FiberNode[] = [],
+    key: string | null = null
+): FiberNode {
+    children.forEach((child, index) => {
+        child.sibling = children[index + 1] ?? null;
+    });
+    return {
+        elementType,
+        memoizedProps: props,
+        key,
+        child: children[0] ?? null,
+        sibling: null,
+        alternate: null,
+    };
+}
+
+// Six fibers per row: Row > li > (span, button > svg > path)
+function row(index: number, title: string): FiberNode {
+    return fiber(
+        Row,
+        { title, onDelete: (id: number) => id },
+        [
+            fiber("li", { className: "row" }, [
+                fiber("span", { className: "title", children: title }),
+                fiber("button", { onClick: () => {}, "aria-label": "Delete" }, [
+                    fiber("svg", { viewBox: "0 0 24 24" }, [
+                        fiber("path", { d: "M18 6L6 18" }),
+                    ]),
+                ]),
+            ]),
+        ],
+        String(index)
+    );
+}
+
+function childrenOf(node: FiberNode): FiberNode[] {
+    const children: FiberNode[] = [];
+    for (let child = node.child; child; child = child.sibling) {
+        children.push(child);
+    }
+    return children;
+}
+
+// Work-in-progress copy of a fiber, linked to it the way React links the two
+// trees
+function alternateOf(
+    node: FiberNode,
+    overrides: Partial<FiberNode> = {}
+): FiberNode {
+    const next: FiberNode = { ...node, ...overrides, alternate: node };
+    node.alternate = next;
+    return next;
+}
+
+// What React commits when one row's state changes: the path to it is
+// re-created, its siblings are cloned with their subtrees left alone.
+function commitRowChange(root: FiberNode, index: number): FiberNode {
+    const rows = childrenOf(root).map((current, i) =>
+        i === index
+            ? alternateOf(current, {
+                  memoizedProps: { ...current.memoizedProps, title: `#${i}` },
+                  child: row(i, `#${i}`).child,
+              })
+            : alternateOf(current)
+    );
+    rows.forEach((current, i) => {
+        current.sibling = rows[i + 1] ?? null;
+    });
+    return alternateOf(root, { child: rows[0], memoizedState: {} });
+}
+
+function median(samples: number[]): number {
+    const sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+}
+
+function time(run: () => void): number {
+    const start = performance.now();
+    run();
+    return performance.now() - start;
+}
+
+function countFibers(node: FiberNode | null | undefined): number {
+    let count = 0;
+    for (let current = node; current; current = current.sibling) {
+        count += 1 + countFibers(current.child);
+    }
+    return count;
+}
+
+let root = fiber(
+    List,
+    {},
+    Array.from({ length: ROWS }, (_, i) => row(i, `Task ${i}`))
+);
+const full: number[] = [];
+const unchanged: number[] = [];
+const incremental: number[] = [];
+let cache: ScanCache = createScanCache();
+
+for (let run = 0; run < RUNS; run++) {
+    full.push(time(() => scanFiberTree(root)));
+
+    cache = createScanCache();
+    scanFiberTree(root, [], cache);
+    unchanged.push(time(() => scanFiberTree(root, [], cache)));
+
+    root = commitRowChange(root, run % ROWS);
+    incremental.push(
+        time(() => {
+            forEachChangedFiber(root, cache.invalidate);
+            scanFiberTree(root, [], cache);
+        })
+    );
+}
+
+console.log(`Scanning ${countFibers(root)} fibers, median of ${RUNS} runs:`);
+console.table({
+    "full scan": { ms: +median(full).toFixed(2) },
+    "re-scan, nothing changed": { ms: +median(unchanged).toFixed(2) },
+    "re-scan after one row changed": { ms: +median(incremental).toFixed(2) },
+});
@@ -0,0 +1,716 @@
+// src/langact/scan.ts
+//
+// Turns a fiber subtree into the semantic structure and action registry.
+// With a `ScanCache`, subtrees no commit has touched since the last scan are
+// reused instead of rebuilt.
+import type {
+    ActionRegistry,
+    ActionRegistryEntry,
+    FiberNode,
+    LLMActionMap,
+    ManualAction,
+    SemanticStructure,
+} from "./Langact";
+import { declareParameters, inferParameterSchema } from "./schema";
+import {
+    adaptEventHandler,
+    eventParameters,
+    type HostElementInfo,
+} from "./events";
+import { labelsFor, type ActionLabels } from "./labels";
+import { createFiberCache, type FiberCache } from "./commits";
+import { SCOPE_ATTRIBUTE } from "./scopes";
+import { exposedStateOf, type ExposeStateOption } from "./state";
+import {
+    REDACTED,
+    isIgnored,
+    isSensitiveField,
+    type RedactionOptions,
+} from "./redaction";
+
+export type ScanOptions = {
+    exposeState?: ExposeStateOption;
+    /** Sensitive fields and handler source; custom rules run after the scan. */
+    redaction?: RedactionOptions;
+};
+
+type ComponentTree = {
+    name: string;
+    props: { [key: string]: any };
+    children: ComponentTree[];
+    label?: string;
+    context?: string;
+    /** Set on the placeholder left where a nested <Langact> begins. */
+    scope?: string;
+    /** Props and hook values opted in through `exposeState`. */
+    state?: Record<string, unknown>;
+    hooks?: unknown[];
+};
+
+// The container of a nested <Langact>, whose subtree it scans itself
+function scopeOf(fiberNode: FiberNode): string | undefined {
+    const scope = fiberNode.memoizedProps?.[SCOPE_ATTRIBUTE];
+    return typeof fiberNode.elementType === "string" &&
+        typeof scope === "string"
+        ? scope
+        : undefined;
+}
+
+/**
+ * Converts a React Fiber node into a simplified, pruned component tree object.
+ * The output object contains only `name`, `props`, and an array of `children`.
+ *
+ * @param {object} fiberNode - The root of the React Fiber tree to process.
+ * @returns {object | null} A simplified tree object, or null if the input is invalid.
+ */
+function fiberToComponentTree(
+    fiberNode: FiberNode | null,
+    ancestors: FiberNode[] = [],
+    cache?: ScanCache,
+    options: ScanOptions = {}
+): ComponentTree | null {
+    // Base case: if the node is null, we've reached the end of a branch.
+    if (!fiberNode) {
+        return null;
+    }
+    // Subtrees no commit has touched since the last scan are reused as-is
+    const cached = cache?.trees.get(fiberNode);
+    if (cached) {
+        return cached;
+    }
+    // Nested scopes contribute their own structure later (see scopes.ts)
+    const scope = scopeOf(fiberNode);
+    if (scope !== undefined) {
+        return { name: "Langact", props: {}, children: [], scope };
+    }
+    // Marked subtrees are left out, along with everything they render
+    if (isIgnored(fiberNode.memoizedProps ?? {})) {
+        return null;
+    }
+
+    // Helper to get a readable name from the fiber's 'elementType'.
+    const getDisplayName = (node: FiberNode): string => {
+        const { elementType } = node;
+        if (typeof elementType === "string") {
+            return elementType; // e.g., 'div'
+        }
+        if (typeof elementType === "function") {
+            return elementType.displayName || elementType.name || "Component";
+        }
+        // For forwarded refs, memo, etc., the component is often in `type` or `render`.
+        if (typeof elementType === "object" && elementType !== null) {
+            const render = elementType.render || elementType.type;
+            if (render) {
+                return render.displayName || render.name || "ComplexComponent";
+            }
+        }
+        return "Unknown";
+    };
+
+    // 1. Get the component's name and props.
+    const name = getDisplayName(fiberNode);
+
+    // Extract props more comprehensively, including functions
+    const props: { [key: string]: any } = {};
+
+    // Check multiple possible locations for props
+    const propsSource =
+        fiberNode.props ||
+        fiberNode.memoizedProps ||
+        fiberNode.pendingProps ||
+        {};
+
+    // Copy all props, including functions
+    for (const key in propsSource) {
+        if (propsSource.hasOwnProperty(key)) {
+            const value = propsSource[key];
+
+            // Include all prop types, including functions
+            if (typeof value === "function") {
+                // For functions, store metadata instead of the actual function
+                (props as any)[key] = {
+                    __type: "function",
+                    __name: value.name || "anonymous",
+                };
+            } else if (value !== null && typeof value === "object") {
+                // For objects (including React elements), create a safe representation
+                (props as any)[key] = {
+                    __type: "object",
+                    __constructor: value.constructor?.name || "Object",
+                    __keys: Object.keys(value),
+                };
+            } else {
+                // For primitives, store as-is
+                (props as any)[key] = value;
+            }
+        }
+    }
+    if (
+        props.value !== undefined &&
+        isSensitiveField(propsSource, options.redaction?.sensitiveFields)
+    ) {
+        props.value = REDACTED;
+    }
+
+    // 2. Process all children by traversing the linked list (child -> sibling).
+    // This creates the clean `children` array you requested, without a `sibling` property.
+    const children = [];
+    let currentChildNode = fiberNode.child;
+
+    while (currentChildNode) {
+        // Recursively convert the child fiber node.
+        const childComponent = fiberToComponentTree(
+            currentChildNode,
+            [...ancestors, fiberNode],
+            cache,
+            options
+        );
+        if (childComponent) {
+            children.push(childComponent);
+        }
+        // Move to the next child in the linked list.
+        currentChildNode = currentChildNode.sibling;
+    }
+
+    // 3. Assemble and return the final JavaScript object for this node.
+    // Actionable nodes also get their accessible name and nearby text.
+    const isActionable = Object.keys(propsSource).some(
+        (key) => key.startsWith("on") && typeof propsSource[key] === "function"
+    );
+    const tree: ComponentTree = {
+        name,
+        props,
+        children,
+        ...(isActionable ? labelsFor(fiberNode, ancestors) : {}),
+        ...(typeof fiberNode.elementType === "string"
+            ? {}
+            : exposedStateOf(
+                  fiberNode,
+                  propsSource,
+                  options.exposeState?.[name]
+              )),
+    };
+    cache?.trees.set(fiberNode, tree);
+    return tree;
+}
+
+/**
+ * Converts a detailed component tree into a concise semantic representation for LLMs.
+ * Focuses on actionable elements and their onClick handlers.
+ *
+ * @param {object} componentTree - The detailed component tree from fiberToComponentTree
+ * @returns {object} A concise semantic structure
+ */
+function createSemanticStructure(
+    componentTree: ComponentTree | null,
+    cache?: ScanCache
+): SemanticStructure | null {
+    if (!componentTree) return null;
+    // Reused component subtrees map to their previous semantic subtrees
+    const cached = cache?.semantic.get(componentTree);
+    if (cached) return cached;
+    if (componentTree.scope !== undefined) {
+        return { component: componentTree.name, scope: componentTree.scope };
+    }
+
+    const semantic: SemanticStructure = {
+        component: componentTree.name,
+        actions: [],
+        children: [],
+    };
+
+    // Extract semantic information from props
+    const props = componentTree.props || {};
+
+    // Add text content if it's a text element or has meaningful text props
+    if (props.children && typeof props.children === "string") {
+        (semantic as any).text = props.children;
+    }
+
+    if (componentTree.label) {
+        semantic.label = componentTree.label;
+    }
+    if (componentTree.context) {
+        semantic.context = componentTree.context;
+    }
+    if (componentTree.state) {
+        semantic.state = componentTree.state;
+    }
+    if (componentTree.hooks) {
+        semantic.hooks = componentTree.hooks;
+    }
+
+    // Add class/styling info for context
+    if (props.className) {
+        (semantic as any).className = props.className;
+    }
+
+    // Extract actionable props (onClick, onSubmit, onChange, etc.)
+    Object.keys(props).forEach((key) => {
+        const prop = props[key];
+
+        // Check for event handlers
+        if (key.startsWith("on") && prop && prop.__type === "function") {
+            (semantic.actions as Array<any>).push({
+                event: key,
+                handler: prop.__name || "anonymous",
+                path: `props.${key}`,
+            });
+        }
+
+        // Add other meaningful props (but keep it concise)
+        if (
+            [
+                "id",
+                "type",
+                "value",
+                "placeholder",
+                "href",
+                "role",
+                "aria-hidden",
+            ].includes(key)
+        ) {
+            (semantic as any)[key] = prop;
+        }
+    });
+
+    // Process children recursively
+    if (componentTree.children && componentTree.children.length > 0) {
+        componentTree.children.forEach((child) => {
+            const childSemantic = createSemanticStructure(child, cache);
+            if (childSemantic) {
+                (semantic.children as Array<any>).push(childSemantic);
+            }
+        });
+    }
+
+    // Clean up empty arrays to keep it concise
+    if (semantic.actions && semantic.actions.length === 0)
+        delete semantic.actions;
+    if (semantic.children && semantic.children.length === 0)
+        delete semantic.children;
+
+    cache?.semantic.set(componentTree, semantic);
+    return semantic;
+}
+
+/**
+ * Finds the DOM node for a fiber: its own for host elements, otherwise the
+ * first host descendant's.
+ * @param {object} fiberNode - The fiber to start from
+ * @returns {Element | null} The DOM node, or null if none is mounted
+ */
+function findHostNode(fiberNode: FiberNode | null): Element | null {
+    if (!fiberNode) return null;
+    if (
+        typeof fiberNode.elementType === "string" &&
+        typeof Element !== "undefined" &&
+        fiberNode.stateNode instanceof Element
+    ) {
+        return fiberNode.stateNode;
+    }
+    let child = fiberNode.child;
+    while (child) {
+        const found = findHostNode(child);
+        if (found) return found;
+        child = child.sibling;
+    }
+    return null;
+}
+
+/**
+ * FNV-1a hash rendered in base 36, used to keep stable action ids short.
+ * @param {string} input - The string to hash
+ * @returns {string} A short, deterministic hash
+ */
+function hashString(input: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
+
+/**
+ * Creates a hashmap of all actionable functions from the fiber tree for LLM access.
+ * Ids are derived from the component path (keyed where React keys exist), the
+ * semantic id and the event name, so the same element keeps the same id
+ * across re-scans. Colliding ids get a `~N` suffix in traversal order.
+ * @param {object} fiberNode - The root fiber node
+ * @param {Array} manualActions - Actions registered through `useAiAction`
+ * @param {object} cache - Optional per-fiber cache for incremental re-scans
+ * @param {object} options - Redaction settings; see `ScanOptions`
+ * @returns {object} A hashmap with function IDs as keys and executable functions as values
+ */
+function createActionRegistry(
+    fiberNode: FiberNode | null,
+    manualActions: ManualAction[] = [],
+    cache?: ScanCache,
+    { redaction }: ScanOptions = {}
+): ActionRegistry {
+    const actionRegistry: ActionRegistry = {};
+    // Handler source stays out of the registry unless asked for
+    const sourceOf = (handler: { toString(): string }) =>
+        redaction?.handlerSource ? { source: handler.toString() } : {};
+
+    // Hand-registered handlers are matched by identity so they replace the
+    // auto-discovered entry for the element they were spread onto.
+    const manualByHandler = new Map<unknown, ManualAction>();
+    manualActions.forEach((action) => {
+        manualByHandler.set(action.execute, action);
+    });
+
+    // Get the component name for context
+    const getDisplayName = (fiberNode: FiberNode): string => {
+        const { elementType } = fiberNode;
+        if (typeof elementType === "string") {
+            return elementType;
+        }
+        if (typeof elementType === "function") {
+            return elementType.displayName || elementType.name || "Component";
+        }
+        return "Unknown";
+    };
+
+    // Returns the entries of a subtree in traversal order. Auto entries carry
+    // their base id; collisions are resolved once the whole tree is known.
+    function traverseAndExtractActions(
+        node: FiberNode,
+        currentPath: string[],
+        instanceNumber: number,
+        ancestors: FiberNode[]
+    ): ActionRegistryEntry[] {
+        // Entries depend on the path, so it is part of the cache key
+        const cacheKey = currentPath.join(">");
+        const cached = cache?.entries.get(node, cacheKey);
+        if (cached) return cached;
+        // A nested <Langact> registers its actions under its scope instead
+        if (scopeOf(node) !== undefined) return [];
+        if (isIgnored(node.memoizedProps ?? {})) return [];
+
+        const componentName = getDisplayName(node);
+        const fiberKey = node.key ?? undefined;
+        const entries: ActionRegistryEntry[] = [];
+
+        // Check all possible prop sources
+        const propsSource =
+            node.props || node.memoizedProps || node.pendingProps || {};
+
+        // Extract identifying props for better differentiation
+        const identifyingProps: Record<string, any> = {};
+        ["id", "num", "index", "value", "name", "className"].forEach((prop) => {
+            if (propsSource[prop] !== undefined) {
+                identifyingProps[prop] = propsSource[prop];
+            }
+        });
+        if (
+            identifyingProps.value !== undefined &&
+            isSensitiveField(propsSource, redaction?.sensitiveFields)
+        ) {
+            identifyingProps.value = REDACTED;
+        }
+        // `key` lives on the fiber, not in props
+        if (fiberKey !== undefined) {
+            identifyingProps.key = fiberKey;
+        }
+
+        // Create a semantic identifier based on props
+        let semanticId = "";
+        if (identifyingProps.num !== undefined) {
+            semanticId = `[num=${identifyingProps.num}]`;
+        } else if (identifyingProps.index !== undefined) {
+            semanticId = `[index=${identifyingProps.index}]`;
+        } else if (identifyingProps.id) {
+            semanticId = `[id=${identifyingProps.id}]`;
+        } else if (identifyingProps.key) {
+            semanticId = `[key=${identifyingProps.key}]`;
+        } else if (instanceNumber > 0) {
+            semanticId = `[instance=${instanceNumber}]`;
+        }
+        // A keyed fiber is already told apart by `Name#key` in its path; a
+        // positional index would change the id whenever an earlier sibling
+        // goes away
+        const hashedSemanticId =
+            fiberKey !== undefined && semanticId.startsWith("[index=")
+                ? ""
+                : semanticId;
+
+        // Host element handlers expect event objects; describe the element so
+        // they can be driven with plain values instead
+        const element: HostElementInfo | undefined =
+            typeof node.elementType === "string"
+                ? {
+                      tag: node.elementType,
+                      type: propsSource.type,
+                      name: propsSource.name,
+                      value: propsSource.value,
+                      checked: propsSource.checked,
+                  }
+                : undefined;
+
+        // Accessible name and nearby text, shared by all of the node's actions
+        const hasHandlers = Object.keys(propsSource).some(
+            (key) =>
+                key.startsWith("on") && typeof propsSource[key] === "function"
+        );
+        const { label, context }: ActionLabels = hasHandlers
+            ? labelsFor(node, ancestors)
+            : {};
+
+        // Extract event handlers
+        Object.keys(propsSource).forEach((propKey) => {
+            const propValue = propsSource[propKey];
+
+            if (propKey.startsWith("on") && typeof propValue === "function") {
+                const manualAction = manualByHandler.get(propValue);
+                if (manualAction && manualAction.event === propKey) {
+                    entries.push({
+                        id: manualAction.id,
+                        component: componentName,
+                        event: propKey,
+                        path: currentPath.join(" > "),
+                        semanticId: semanticId,
+                        identifyingProps: identifyingProps,
+                        description: manualAction.description,
+                        execute: manualAction.execute,
+                        source: "manual",
+                        parameterSchema: manualAction.parameterSchema,
+                        destructive: manualAction.destructive,
+                        undo: manualAction.undo,
+                        element,
+                        domNode: findHostNode(node),
+                        label,
+                        context,
+                        metadata: {
+                            functionName: manualAction.id,
+                            ...sourceOf(propValue),
+                        },
+                    });
+                    return;
+                }
+
+                const baseId = `${componentName}.${propKey}.${hashString(
+                    `${currentPath.join(">")}|${hashedSemanticId}|${propKey}`
+                )}`;
+
+                // Enhanced description with semantic information
+                let description = `${propKey} handler on ${componentName}`;
+                if (label) {
+                    description += ` "${label}"`;
+                }
+                if (semanticId) {
+                    description += ` ${semanticId}`;
+                }
+                if (context) {
+                    description += ` near "${context}"`;
+                }
+                description += ` at ${currentPath.join(" > ")}`;
+
+                entries.push({
+                    id: baseId,
+                    component: componentName,
+                    event: propKey,
+                    path: currentPath.join(" > "),
+                    semanticId: semanticId,
+                    identifyingProps: identifyingProps,
+                    description: description,
+                    execute: element
+                        ? adaptEventHandler(propValue, element, propKey)
+                        : propValue,
+                    source: "auto",
+                    parameterSchema: element
+                        ? {
+                              ...declareParameters(
+                                  eventParameters(element, propKey)
+                              ),
+                              source: "inferred",
+                          }
+                        : inferParameterSchema(propValue, { event: propKey }),
+                    element,
+                    domNode: findHostNode(node),
+                    label,
+                    context,
+                    destructive: !!propsSource["data-langact-destructive"],
+                    metadata: {
+                        functionName: propValue.name || "anonymous",
+                        ...sourceOf(propValue),
+                    },
+                });
+            }
+        });
+
+        // Traverse children. Repeated siblings are told apart by React key
+        // where there is one, otherwise by their position among namesakes.
+        const componentCounts: Record<string, number> = {};
+        const childAncestors = [...ancestors, node];
+        let child = node.child;
+        while (child) {
+            const childName = getDisplayName(child);
+            const childInstance = componentCounts[childName] ?? 0;
+            componentCounts[childName] = childInstance + 1;
+            const childKey = child.key ?? undefined;
+            const instanceIdentifier =
+                childKey !== undefined
+                    ? `${childName}#${childKey}`
+                    : childInstance > 0
+                    ? `${childName}[${childInstance}]`
+                    : childName;
+            entries.push(
+                ...traverseAndExtractActions(
+                    child,
+                    [...currentPath, instanceIdentifier],
+                    childInstance,
+                    childAncestors
+                )
+            );
+            child = child.sibling;
+        }
+
+        cache?.entries.set(node, entries, cacheKey);
+        return entries;
+    }
+
+    if (fiberNode) {
+        const rootName = getDisplayName(fiberNode);
+        const rootIdentifier =
+            fiberNode.key != null ? `${rootName}#${fiberNode.key}` : rootName;
+        traverseAndExtractActions(fiberNode, [rootIdentifier], 0, []).forEach(
+            (entry) => {
+                if (entry.source === "manual") {
+                    actionRegistry[entry.id] = entry;
+                    return;
+                }
+                let functionId = entry.id;
+                for (let n = 2; actionRegistry[functionId]; n++) {
+                    functionId = `${entry.id}~${n}`;
+                }
+                actionRegistry[functionId] =
+                    functionId === entry.id
+                        ? entry
+                        : { ...entry, id: functionId };
+            }
+        );
+    }
+
+    // Manual actions whose props were never spread onto an element are still
+    // callable, they just have no place in the tree.
+    manualActions.forEach((action) => {
+        if (actionRegistry[action.id]) return;
+        actionRegistry[action.id] = {
+            id: action.id,
+            component: "useAiAction",
+            event: action.event,
+            path: "",
+            semanticId: "",
+            identifyingProps: {},
+            description: action.description,
+            execute: action.execute,
+            source: "manual",
+            parameterSchema: action.parameterSchema,
+            destructive: action.destructive,
+            undo: action.undo,
+            metadata: {
+                functionName: action.id,
+                ...sourceOf(action.execute),
+            },
+        };
+    });
+
+    return actionRegistry;
+}
+
+/**
+ * Creates a simplified action map for LLM consumption
+ * @param {object} actionRegistry - The full action registry
+ * @returns {object} Simplified action descriptions for LLM
+ */
+export function createLLMActionMap(
+    actionRegistry: ActionRegistry
+): LLMActionMap {
+    const llmActionMap: LLMActionMap = {};
+    Object.keys(actionRegistry).forEach((actionId) => {
+        const action = actionRegistry[actionId];
+
+        // Parameter names come from the declared or inferred schema
+        const parameters = action.parameterSchema.items.map((p) => p.name);
+        if (action.parameterSchema.additionalItems) parameters.push("...args");
+        const paramString = parameters.join(", ");
+
+        llmActionMap[actionId] = {
+            description: action.description,
+            component: action.component,
+            event: action.event,
+            path: action.path,
+            semanticId: action.semanticId,
+            identifyingProps: action.identifyingProps,
+            parameters: parameters,
+            parameterSchema: action.parameterSchema,
+            destructive: !!action.destructive,
+            signature: `${action.metadata.functionName}(${paramString})`,
+            ...(action.metadata.source
+                ? { source: action.metadata.source }
+                : {}),
+            ...(action.label ? { label: action.label } : {}),
+            ...(action.context ? { context: action.context } : {}),
+            ...(action.scope ? { scope: action.scope } : {}),
+        };
+    });
+    return llmActionMap;
+}
+
+/**
+ * Per-fiber caches that make re-scans incremental. Commits reported by
+ * React invalidate the fibers they touched (see `commits.ts`); everything
+ * else is reused from the previous scan.
+ */
+export type ScanCache = {
+    trees: FiberCache<ComponentTree>;
+    entries: FiberCache<ActionRegistryEntry[]>;
+    semantic: WeakMap<ComponentTree, SemanticStructure>;
+    invalidate: (fiber: FiberNode) => void;
+    clear: () => void;
+};
+
+export function createScanCache(): ScanCache {
+    const trees = createFiberCache<ComponentTree>();
+    const entries = createFiberCache<ActionRegistryEntry[]>();
+    return {
+        trees,
+        entries,
+        semantic: new WeakMap(),
+        invalidate(fiber) {
+            trees.invalidate(fiber);
+            entries.invalidate(fiber);
+        },
+        clear() {
+            trees.clear();
+            entries.clear();
+        },
+    };
+}
+
+/**
+ * Builds the semantic structure and the (unfiltered) action registry for a
+ * fiber subtree, reusing cached subtrees when a cache is given.
+ */
+export function scanFiberTree(
+    fiberRoot: FiberNode,
+    manualActions: ManualAction[] = [],
+    cache?: ScanCache,
+    options: ScanOptions = {}
+): {
+    semanticStructure: SemanticStructure | null;
+    actionRegistry: ActionRegistry;
+} {
+    const componentTree = fiberToComponentTree(fiberRoot, [], cache, options);
+    return {
+        semanticStructure: createSemanticStructure(componentTree, cache),
+        actionRegistry: createActionRegistry(
+            fiberRoot,
+            manualActions,
+            cache,
+            options
+        ),
+    };
+}
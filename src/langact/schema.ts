@@ -0,0 +1,252 @@
+// src/langact/schema.ts
+//
+// JSON-Schema-style descriptions of the positional `parameters` array an action
+// accepts, plus inference from handler source and validation of LLM output.
+
+export type ParameterType =
+    | "string"
+    | "number"
+    | "integer"
+    | "boolean"
+    | "object"
+    | "array"
+    | "null";
+
+// A single positional parameter. `type` omitted means any value is accepted.
+export type AiActionParameter = {
+    name: string;
+    type?: ParameterType | ParameterType[];
+    description?: string;
+    enum?: Array<string | number | boolean | null>;
+    /** Defaults to true. */
+    required?: boolean;
+};
+
+// Tuple schema in the draft-07 style: `items` is positional.
+export type ParametersSchema = {
+    type: "array";
+    items: AiActionParameter[];
+    minItems: number;
+    additionalItems: boolean;
+    source: "declared" | "inferred";
+};
+
+export type ValidationResult =
+    | { valid: true; value: unknown[] }
+    | { valid: false; errors: string[] };
+
+const EVENT_PARAM_NAMES = ["e", "ev", "evt", "event"];
+
+/**
+ * Builds a schema from hand-declared parameters (e.g. from `useAiAction`).
+ */
+export function declareParameters(
+    parameters: AiActionParameter[]
+): ParametersSchema {
+    let minItems = 0;
+    parameters.forEach((parameter, index) => {
+        if (parameter.required !== false) minItems = index + 1;
+    });
+    return {
+        type: "array",
+        items: parameters,
+        minItems,
+        additionalItems: false,
+        source: "declared",
+    };
+}
+
+// Splits a parameter list on top-level commas, ignoring commas nested in
+// destructuring patterns or default values.
+function splitParameterList(list: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+    for (const char of list) {
+        if ("([{".includes(char)) depth++;
+        if (")]}".includes(char)) depth--;
+        if (char === "," && depth === 0) {
+            parts.push(current.trim());
+            current = "";
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+}
+
+// Extracts the raw parameter list of a function from its source text, or null
+// when the source is not recognisable (native code, bound functions, ...).
+function extractParameterList(source: string): string | null {
+    const text = source.trim();
+    const arrowSingle = text.match(/^(?:async\s+)?([\w$]+)\s*=>/);
+    if (arrowSingle) return arrowSingle[1];
+
+    // Find the first parenthesised group and walk to its matching close
+    const open = text.indexOf("(");
+    if (open === -1 || /\[native code\]/.test(text)) return null;
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        if (text[i] === "(") depth++;
+        if (text[i] === ")") depth--;
+        if (depth === 0) return text.slice(open + 1, i);
+    }
+    return null;
+}
+
+/**
+ * Infers a permissive schema from a handler's source. Parameter names are
+ * recovered where possible; types are never guessed. A leading `e`/`event`
+ * argument of an event prop is supplied by the caller, so it is optional.
+ */
+export function inferParameterSchema(
+    handler: (...args: never[]) => unknown,
+    options: { event?: string } = {}
+): ParametersSchema {
+    const list = extractParameterList(
+        Function.prototype.toString.call(handler)
+    );
+    if (list === null) {
+        return {
+            type: "array",
+            items: [],
+            minItems: 0,
+            additionalItems: true,
+            source: "inferred",
+        };
+    }
+
+    const items: AiActionParameter[] = [];
+    let additionalItems = false;
+    splitParameterList(list).forEach((raw, index) => {
+        if (raw.startsWith("...")) {
+            additionalItems = true;
+            return;
+        }
+        const [pattern, defaultValue] = raw.split(/=(?!>)/, 2);
+        const isDestructured = /^[[{]/.test(pattern.trim());
+        const name = isDestructured ? `arg${index}` : pattern.trim();
+        const isEvent =
+            options.event?.startsWith("on") &&
+            index === 0 &&
+            EVENT_PARAM_NAMES.includes(name);
+        const parameter: AiActionParameter = { name };
+        if (isEvent) {
+            parameter.type = "object";
+            parameter.description = "Event object, supplied automatically";
+            parameter.required = false;
+        } else {
+            if (isDestructured) {
+                parameter.type = pattern.trim().startsWith("[")
+                    ? "array"
+                    : "object";
+            }
+            if (defaultValue !== undefined) parameter.required = false;
+        }
+        items.push(parameter);
+    });
+
+    let minItems = 0;
+    items.forEach((item, index) => {
+        if (item.required !== false) minItems = index + 1;
+    });
+    return {
+        type: "array",
+        items,
+        minItems,
+        additionalItems,
+        source: "inferred",
+    };
+}
+
+function typeOf(value: unknown): ParameterType {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number") {
+        return Number.isInteger(value) ? "integer" : "number";
+    }
+    return typeof value as ParameterType;
+}
+
+function matchesType(value: unknown, type: ParameterType): boolean {
+    const actual = typeOf(value);
+    if (type === "number") return actual === "number" || actual === "integer";
+    return actual === type;
+}
+
+// LLMs routinely send "3" for 3 and "true" for true; accept those unambiguous
+// spellings rather than failing the whole command.
+function coerce(value: unknown, type: ParameterType): unknown {
+    if (typeof value !== "string") return value;
+    const trimmed = value.trim();
+    if ((type === "number" || type === "integer") && trimmed !== "") {
+        const number = Number(trimmed);
+        if (!Number.isNaN(number)) return number;
+    }
+    if (type === "boolean" && (trimmed === "true" || trimmed === "false")) {
+        return trimmed === "true";
+    }
+    return value;
+}
+
+/**
+ * Checks a positional parameter array against a schema. On success the
+ * (possibly coerced) arguments are returned ready to spread into `execute`.
+ */
+export function validateParameters(
+    schema: ParametersSchema,
+    parameters: unknown
+): ValidationResult {
+    if (!Array.isArray(parameters)) {
+        return {
+            valid: false,
+            errors: [`parameters must be an array, got ${typeOf(parameters)}`],
+        };
+    }
+
+    const errors: string[] = [];
+    if (parameters.length < schema.minItems) {
+        const missing = schema.items
+            .slice(parameters.length, schema.minItems)
+            .filter((item) => item.required !== false)
+            .map((item) => `"${item.name}"`);
+        errors.push(`missing required parameter(s) ${missing.join(", ")}`);
+    }
+    if (!schema.additionalItems && parameters.length > schema.items.length) {
+        errors.push(
+            `expected at most ${schema.items.length} parameter(s), got ${parameters.length}`
+        );
+    }
+
+    const value = parameters.map((argument, index) => {
+        const item = schema.items[index];
+        if (!item || !item.type) return argument;
+        const types = Array.isArray(item.type) ? item.type : [item.type];
+        const coerced = types.reduce<unknown>(
+            (current, type) =>
+                types.some((t) => matchesType(current, t))
+                    ? current
+                    : coerce(current, type),
+            argument
+        );
+        if (!types.some((type) => matchesType(coerced, type))) {
+            errors.push(
+                `parameter "${item.name}" must be ${types.join(
+                    " or "
+                )}, got ${typeOf(argument)}`
+            );
+        } else if (item.enum && !item.enum.includes(coerced as never)) {
+            errors.push(
+                `parameter "${item.name}" must be one of ${JSON.stringify(
+                    item.enum
+                )}`
+            );
+        }
+        return coerced;
+    });
+
+    return errors.length > 0
+        ? { valid: false, errors }
+        : { valid: true, value };
+}
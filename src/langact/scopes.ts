@@ -0,0 +1,145 @@
+// src/langact/scopes.ts
+//
+// Nested `<Langact scope="...">` boundaries. An outer Langact stops scanning
+// at an inner one's container and instead merges the inner registry under
+// the scope name, so `tasks.add` inside `scope="todo"` is `todo.tasks.add`
+// outside it.
+import type { ActionRegistry, SemanticStructure } from "./Langact";
+import type { AiStateMap } from "./state";
+
+export const SCOPE_SEPARATOR = ".";
+
+// Marks the container element of every <Langact>; outer scans stop there
+export const SCOPE_ATTRIBUTE = "data-langact-scope";
+
+// What an inner Langact exposes to the one above it
+export type ScopeHandle = {
+    /** Scope name; "" merges the actions without a prefix. */
+    name: string;
+    getActionRegistry: () => ActionRegistry;
+    getSemanticStructure: () => SemanticStructure | null;
+    /** Values published with `useAiState` inside the scope. */
+    getState: () => AiStateMap;
+    /** Called after every re-scan of the inner Langact. */
+    subscribe: (listener: () => void) => () => void;
+};
+
+/**
+ * Whether an action id belongs to a scope (or any scope nested in it). An
+ * empty or missing scope matches everything.
+ */
+export function inScope(id: string, scope?: string): boolean {
+    return !scope || id.startsWith(scope + SCOPE_SEPARATOR);
+}
+
+/**
+ * The entries of an id-keyed map (registry, action map) that belong to a
+ * scope.
+ */
+export function filterByScope<T>(
+    map: Record<string, T>,
+    scope?: string
+): Record<string, T> {
+    if (!scope) return map;
+    return Object.fromEntries(
+        Object.entries(map).filter(([id]) => inScope(id, scope))
+    );
+}
+
+/**
+ * Adds the actions of child scopes to a registry, prefixing ids, scopes and
+ * paths with the child's name.
+ */
+export function mergeScopes(
+    registry: ActionRegistry,
+    scopes: ScopeHandle[]
+): ActionRegistry {
+    if (scopes.length === 0) return registry;
+    const merged: ActionRegistry = { ...registry };
+    scopes.forEach(({ name, getActionRegistry }) => {
+        Object.values(getActionRegistry()).forEach((entry) => {
+            if (!name) {
+                merged[entry.id] = entry;
+                return;
+            }
+            const id = `${name}${SCOPE_SEPARATOR}${entry.id}`;
+            const boundary = `Langact#${name}`;
+            merged[id] = {
+                ...entry,
+                id,
+                scope: entry.scope
+                    ? `${name}${SCOPE_SEPARATOR}${entry.scope}`
+                    : name,
+                path: entry.path ? `${boundary} > ${entry.path}` : boundary,
+            };
+        });
+    });
+    return merged;
+}
+
+/**
+ * Adds the published state of child scopes, prefixing keys with the child's
+ * name like action ids.
+ */
+export function mergeScopeState(
+    state: AiStateMap,
+    scopes: ScopeHandle[]
+): AiStateMap {
+    if (scopes.length === 0) return state;
+    const merged: AiStateMap = { ...state };
+    scopes.forEach(({ name, getState }) => {
+        Object.entries(getState()).forEach(([key, entry]) => {
+            merged[name ? `${name}${SCOPE_SEPARATOR}${key}` : key] = entry;
+        });
+    });
+    return merged;
+}
+
+/**
+ * Fills the placeholders an outer scan leaves at scope boundaries with the
+ * child scopes' own structures. Scopes sharing a name are matched in order.
+ */
+export function attachScopes(
+    structure: SemanticStructure | null,
+    scopes: ScopeHandle[]
+): SemanticStructure | null {
+    if (!structure || scopes.length === 0) return structure;
+    const byName = new Map<string, ScopeHandle[]>();
+    scopes.forEach((handle) => {
+        byName.set(handle.name, [...(byName.get(handle.name) ?? []), handle]);
+    });
+    const attach = (node: SemanticStructure): SemanticStructure => {
+        if (typeof node.scope === "string") {
+            const child = byName.get(node.scope)?.shift();
+            const inner = child?.getSemanticStructure();
+            return inner ? { ...node, children: [inner] } : node;
+        }
+        if (!node.children) return node;
+        return { ...node, children: node.children.map(attach) };
+    };
+    return attach(structure);
+}
+
+/**
+ * The part of a semantic structure that belongs to a (possibly nested)
+ * scope, or null when the scope is not rendered.
+ */
+export function findScope(
+    structure: SemanticStructure | null,
+    scope: string
+): SemanticStructure | null {
+    const [name, ...rest] = scope.split(SCOPE_SEPARATOR);
+    const search = (node: SemanticStructure): SemanticStructure | null => {
+        if (node.scope === name) return node;
+        for (const child of node.children ?? []) {
+            const found = search(child);
+            if (found) return found;
+        }
+        return null;
+    };
+    const found = structure && search(structure);
+    if (!found || rest.length === 0) return found;
+    // Continue below the boundary, not at it
+    const inner = found.children?.[0] ?? null;
+    return findScope(inner, rest.join(SCOPE_SEPARATOR));
+}
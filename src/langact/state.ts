@@ -0,0 +1,151 @@
+// src/langact/state.ts
+//
+// Read-only app state the model may see, so it can answer questions such as
+// "how many tasks do I have?" as well as act. Nothing is exposed by default:
+// components publish values with `useAiState`, and <Langact exposeState>
+// names the components whose props or hook state are added to the semantic
+// structure. Values are copied into plain JSON, trimmed to keep prompts small.
+import type { FiberNode } from "./Langact";
+
+export type AiStateEntry = {
+    /** What the value means, for the model. */
+    description?: string;
+    value: unknown;
+};
+
+/** Published values by key, e.g. `{ tasks: { value: [...] } }`. */
+export type AiStateMap = Record<string, AiStateEntry>;
+
+export type ExposedState = {
+    /** Props to copy onto the component's node as `state`. */
+    props?: string[];
+    /** Add the values of its `useState`/`useReducer` hooks as `hooks`. */
+    hooks?: boolean;
+};
+
+/** By component name, e.g. `{ TaskItem: { props: ["task"] } }`. */
+export type ExposeStateOption = Record<string, ExposedState>;
+
+const MAX_DEPTH = 5;
+const MAX_ITEMS = 50;
+const MAX_STRING_LENGTH = 500;
+
+/**
+ * A JSON-safe copy of a value: functions, symbols and React elements are
+ * dropped, cycles and deep nesting are cut off, and long arrays and strings
+ * are truncated with a note.
+ */
+export function toStateValue(
+    value: unknown,
+    depth = 0,
+    seen = new WeakSet<object>()
+): unknown {
+    if (value === null || value === undefined) return null;
+    switch (typeof value) {
+        case "string":
+            return value.length > MAX_STRING_LENGTH
+                ? value.slice(0, MAX_STRING_LENGTH) + "..."
+                : value;
+        case "number":
+        case "boolean":
+            return value;
+        case "bigint":
+            return String(value);
+        case "function":
+        case "symbol":
+            return undefined;
+    }
+    const object = value as object;
+    if (seen.has(object) || depth >= MAX_DEPTH) return "[...]";
+    if ("$$typeof" in object) return undefined;
+    if (object instanceof Date) return object.toISOString();
+    if (typeof Element !== "undefined" && object instanceof Element) {
+        return undefined;
+    }
+    seen.add(object);
+    const copy = (item: unknown) => toStateValue(item, depth + 1, seen);
+    let result: unknown;
+    if (
+        object instanceof Map ||
+        object instanceof Set ||
+        Array.isArray(object)
+    ) {
+        const items = Array.from(
+            object instanceof Map ? object.entries() : object
+        );
+        result = items.slice(0, MAX_ITEMS).map((item) => copy(item) ?? null);
+        if (items.length > MAX_ITEMS) {
+            (result as unknown[]).push(`(${items.length - MAX_ITEMS} more)`);
+        }
+    } else {
+        const entries: [string, unknown][] = [];
+        Object.entries(object).forEach(([key, item]) => {
+            const copied = copy(item);
+            if (copied !== undefined) entries.push([key, copied]);
+        });
+        result = Object.fromEntries(entries);
+    }
+    seen.delete(object);
+    return result;
+}
+
+type Hook = {
+    memoizedState?: unknown;
+    queue?: { dispatch?: unknown } | null;
+    next?: Hook | null;
+};
+
+/**
+ * Values of a function component's `useState` and `useReducer` hooks, in call
+ * order. Other hooks (refs, memos, effects) have no dispatch and are skipped.
+ */
+export function hookStateValues(fiber: FiberNode): unknown[] {
+    const values: unknown[] = [];
+    if (typeof fiber.elementType === "string") return values;
+    let hook = fiber.memoizedState as Hook | null | undefined;
+    while (hook && typeof hook === "object" && "next" in hook) {
+        if (typeof hook.queue?.dispatch === "function") {
+            values.push(toStateValue(hook.memoizedState) ?? null);
+        }
+        hook = hook.next;
+    }
+    return values;
+}
+
+/**
+ * What `exposeState` makes visible for a component: its selected props as
+ * `state` and its hook values as `hooks`.
+ */
+export function exposedStateOf(
+    fiber: FiberNode,
+    props: Record<string, unknown>,
+    exposed: ExposedState | undefined
+): { state?: Record<string, unknown>; hooks?: unknown[] } {
+    if (!exposed) return {};
+    const state: Record<string, unknown> = {};
+    exposed.props?.forEach((name) => {
+        const value = toStateValue(props[name]);
+        if (value !== undefined) state[name] = value;
+    });
+    const hooks = exposed.hooks ? hookStateValues(fiber) : [];
+    return {
+        ...(Object.keys(state).length ? { state } : {}),
+        ...(hooks.length ? { hooks } : {}),
+    };
+}
+
+/**
+ * The published values alone, as sent to the model.
+ */
+export function stateForPrompt(
+    state: AiStateMap
+): Record<string, unknown> | undefined {
+    const entries = Object.entries(state);
+    if (entries.length === 0) return undefined;
+    return Object.fromEntries(
+        entries.map(([key, { description, value }]) => [
+            key,
+            description ? { description, value } : value,
+        ])
+    );
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it } from "vitest";
+// Before anything that loads react-dom, so commit notifications are on
+import {
+    findActionId,
+    renderWithLangact,
+    waitFor,
+    type LangactHarness,
+    type ScriptedModel,
+} from "./testing";
+import { TodoList } from "../components/TodoList";
+import { CommandBar } from "../components/CommandBar";
+
+const deleteGroceries: ScriptedModel = ({ actions }) => ({
+    actionId: findActionId(actions, 'delete the task "buy groceries"'),
+});
+
+const taskCount = (app: LangactHarness) =>
+    app.container.querySelectorAll(".task-item").length;
+
+const listText = (app: LangactHarness) =>
+    app.container.querySelector(".todo-app")?.textContent ?? "";
+
+// Types into a controlled input the way a user would, so React sees it
+function typeInto(input: HTMLInputElement, text: string) {
+    Object.getOwnPropertyDescriptor(
+        HTMLInputElement.prototype,
+        "value"
+    )!.set!.call(input, text);
+    input.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+describe("renderWithLangact", () => {
+    let app: LangactHarness | undefined;
+
+    afterEach(() => {
+        app?.unmount();
+        app = undefined;
+    });
+
+    it("deletes the task a command names", async () => {
+        app = await renderWithLangact(<TodoList />, {
+            model: deleteGroceries,
+        });
+
+        const result = await app.runCommand("delete groceries");
+
+        expect(result.ok).toBe(true);
+        expect(taskCount(app)).toBe(1);
+        expect(app.text()).not.toContain("groceries");
+        expect(app.text()).toContain("Walk the dog");
+    });
+
+    it("shows the model the tools and structure of the app", async () => {
+        app = await renderWithLangact(<TodoList />, {
+            model: deleteGroceries,
+        });
+
+        const offered = app.langact.listActions().map((action) => action.id);
+        await app.runCommand("delete groceries");
+
+        expect(app.requests).toHaveLength(1);
+        expect(app.requests[0].tools?.map((tool) => tool.actionId)).toEqual(
+            offered
+        );
+        expect(app.requests[0].messages.at(-1)?.content).toContain(
+            "Buy groceries"
+        );
+    });
+
+    it("leaves destructive actions alone when they are declined", async () => {
+        app = await renderWithLangact(<TodoList />, {
+            model: deleteGroceries,
+            confirm: false,
+        });
+
+        const result = await app.runCommand("delete groceries");
+
+        expect(result.ok).toBe(false);
+        expect(taskCount(app)).toBe(2);
+    });
+
+    it("runs commands the way the CommandBar does", async () => {
+        // The same command through the harness...
+        const harness = await renderWithLangact(
+            <div className="app">
+                <TodoList />
+            </div>,
+            { model: deleteGroceries }
+        );
+        await harness.runCommand("delete groceries");
+        const harnessRequest = harness.requests[0];
+        harness.unmount();
+
+        // ...and typed into a CommandBar rendered next to the list, as in the
+        // demo app
+        app = await renderWithLangact(
+            <div className="app">
+                <CommandBar />
+                <TodoList />
+            </div>,
+            { model: deleteGroceries }
+        );
+        const input =
+            app.container.querySelector<HTMLInputElement>(".search-input")!;
+        typeInto(input, "delete groceries");
+        await waitFor(() => input.value === "delete groceries");
+        input.form!.requestSubmit();
+        const run = await waitFor(() =>
+            app!.container.querySelector<HTMLButtonElement>(".confirm-run")
+        );
+        run.click();
+        await waitFor(() => taskCount(app!) === 1);
+
+        expect(listText(app)).not.toContain("groceries");
+        expect(app.requests).toHaveLength(1);
+        // The CommandBar keeps itself out of the scan, so the model is sent
+        // exactly what the harness sent
+        expect(app.requests[0].tools).toEqual(harnessRequest.tools);
+        expect(app.requests[0].messages).toEqual(harnessRequest.messages);
+    });
+});
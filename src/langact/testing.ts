@@ -0,0 +1,245 @@
+// src/langact/testing.ts
+//
+// Headless harness for testing AI integrations offline. It renders an app
+// under <Langact> into the current `document` (jsdom, happy-dom, ...), and
+// runs natural-language commands through the same planning and execution
+// code as the CommandBar, answered by a scripted or mock model.
+import "./commits";
+import { createElement, createRef, type ReactElement } from "react";
+import { createRoot } from "react-dom/client";
+import { Langact, type LLMActionMap } from "./Langact";
+import {
+    createMockProvider,
+    type LLMProvider,
+    type LLMRequest,
+} from "./providers";
+import type { ActionPolicy } from "./policy";
+import { toPlanSteps } from "./executor";
+import { toNamedArguments, type JSONSchema } from "./tools";
+import type { ExecutionMode } from "./dom";
+import type { ExposeStateOption } from "./state";
+import type { RedactionOptions } from "./redaction";
+import type {
+    CommandOptions,
+    CommandResult,
+    LangactHandle,
+    LangactSnapshot,
+} from "./handle";
+
+// What a scripted model is shown for each command
+export type ScriptedCommand = {
+    query: string;
+    /** The actions offered as tools, by action id. */
+    actions: Record<string, { description: string; parameters: JSONSchema }>;
+    semanticStructure: unknown;
+};
+
+/**
+ * A model written as a function. It returns `{actionId, parameters}` or
+ * `{steps: [...]}`, which become native tool calls, or a raw text reply.
+ */
+export type ScriptedModel = (command: ScriptedCommand) => unknown;
+
+export type HarnessOptions = {
+    /**
+     * The model: a provider, a scripted function, or fixed replies (a list is
+     * consumed in order). Commands fail without one.
+     */
+    model?: LLMProvider | ScriptedModel | string | string[];
+    policy?: ActionPolicy;
+    executionMode?: ExecutionMode;
+    exposeState?: ExposeStateOption;
+    redaction?: RedactionOptions;
+    /**
+     * Answer for destructive actions: a fixed answer or a function of the
+     * action id. Approves everything by default.
+     */
+    confirm?: boolean | ((actionId: string) => boolean);
+    /** Element to render into; a fresh <div> in `document.body` otherwise. */
+    container?: HTMLElement;
+};
+
+export type LangactHarness = {
+    container: HTMLElement;
+    langact: LangactHandle;
+    /** Every request sent to the model, for asserting on prompts. */
+    requests: LLMRequest[];
+    /** Plans and runs a command, resolving once the UI has settled. */
+    runCommand: (
+        text: string,
+        options?: CommandOptions
+    ) => Promise<CommandResult>;
+    /** Visible text of the rendered app. */
+    text: () => string;
+    snapshot: () => LangactSnapshot;
+    unmount: () => void;
+};
+
+/**
+ * Resolves once `predicate` returns a truthy value, polling until `timeout`
+ * ms have passed.
+ */
+export async function waitFor<T>(
+    predicate: () => T,
+    {
+        timeout = 1000,
+        interval = 10,
+    }: { timeout?: number; interval?: number } = {}
+): Promise<NonNullable<T>> {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+        const value = predicate();
+        if (value) return value as NonNullable<T>;
+        if (Date.now() > deadline) {
+            throw new Error(`waitFor timed out after ${timeout}ms`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+}
+
+/**
+ * Wraps a scripted model as a provider. The function sees the query, the
+ * tools and the UI structure the CommandBar would send, and its answer is
+ * returned the way a function-calling model would return it.
+ */
+export function createScriptedProvider(
+    script: ScriptedModel
+): LLMProvider & { calls: LLMRequest[] } {
+    return createMockProvider((request) => {
+        // The current query is the last user message; earlier ones are
+        // conversation history
+        const prompt = request.messages.filter((m) => m.role === "user").at(-1);
+        const { query, semanticStructure } = JSON.parse(
+            prompt?.content ?? "{}"
+        ) as { query: string; semanticStructure: unknown };
+        const tools = request.tools ?? [];
+        const reply = script({
+            query,
+            actions: Object.fromEntries(
+                tools.map((tool) => [
+                    tool.actionId,
+                    {
+                        description: tool.description,
+                        parameters: tool.parameters,
+                    },
+                ])
+            ),
+            semanticStructure,
+        });
+        if (typeof reply === "string") return reply;
+        const steps = toPlanSteps(reply);
+        const byAction = new Map(tools.map((tool) => [tool.actionId, tool]));
+        // Unknown ids go back as text, as a model that made them up would
+        if (
+            steps.length === 0 ||
+            !steps.every((s) => byAction.has(s.actionId))
+        ) {
+            return JSON.stringify(reply);
+        }
+        return {
+            content: "",
+            toolCalls: steps.map((step) => {
+                const tool = byAction.get(step.actionId)!;
+                return {
+                    name: tool.name,
+                    arguments: toNamedArguments(
+                        step.parameters ?? [],
+                        tool.parameterSchema
+                    ),
+                };
+            }),
+        };
+    });
+}
+
+function toProvider(model: HarnessOptions["model"]): LLMProvider | undefined {
+    if (model === undefined) return undefined;
+    if (typeof model === "function") return createScriptedProvider(model);
+    if (typeof model === "object" && !Array.isArray(model)) return model;
+    return createMockProvider(model);
+}
+
+/**
+ * Id of the first action whose description, label or context contains
+ * `text` (case-insensitive). Handy in scripted models.
+ */
+export function findActionId(
+    actions: LLMActionMap | ScriptedCommand["actions"],
+    text: string
+): string | undefined {
+    const needle = text.toLowerCase();
+    return Object.entries(actions).find(([, action]) =>
+        ["description", "label", "context"].some((field) =>
+            String((action as Record<string, unknown>)[field] ?? "")
+                .toLowerCase()
+                .includes(needle)
+        )
+    )?.[0];
+}
+
+/**
+ * Renders `ui` under <Langact> and resolves once the first scan has
+ * finished.
+ */
+export async function renderWithLangact(
+    ui: ReactElement,
+    {
+        model,
+        policy,
+        executionMode,
+        exposeState,
+        redaction,
+        confirm = true,
+        container: givenContainer,
+    }: HarnessOptions = {}
+): Promise<LangactHarness> {
+    const container =
+        givenContainer ??
+        document.body.appendChild(document.createElement("div"));
+    const provider = toProvider(model);
+    const requests: LLMRequest[] = [];
+    // Record requests whatever kind of provider was given
+    const recordingProvider: LLMProvider | undefined = provider && {
+        name: provider.name,
+        supportsTools: provider.supportsTools,
+        complete(request) {
+            requests.push(request);
+            return provider.complete(request);
+        },
+    };
+    const ref = createRef<LangactHandle>();
+    const root = createRoot(container);
+    root.render(
+        createElement(Langact, {
+            ref,
+            provider: recordingProvider,
+            policy,
+            executionMode,
+            exposeState,
+            redaction,
+            children: ui,
+        })
+    );
+    const langact = await waitFor(() => ref.current);
+    await waitFor(() => langact.getSnapshot().semanticStructure);
+
+    const approve = (actionId: string) =>
+        typeof confirm === "function" ? confirm(actionId) : confirm;
+
+    return {
+        container,
+        langact,
+        requests,
+        runCommand: (text, options = {}) =>
+            langact.runCommand(text, {
+                confirm: async (entry) => approve(entry.id),
+                ...options,
+            }),
+        text: () => container.textContent ?? "",
+        snapshot: () => langact.getSnapshot(),
+        unmount() {
+            root.unmount();
+            if (!givenContainer) container.remove();
+        },
+    };
+}
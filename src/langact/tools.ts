@@ -0,0 +1,211 @@
+// src/langact/tools.ts
+//
+// The action map as native tool definitions for function-calling APIs, and
+// the way back from the model's tool calls to plan steps. Actions take
+// positional parameters while tools take a named-argument object, so each
+// positional item becomes a property named after it.
+import type { LLMActionMap } from "./Langact";
+import type { AiActionParameter, ParametersSchema } from "./schema";
+import type { PlanStep } from "./executor";
+
+export type JSONSchema = Record<string, unknown>;
+
+// Provider-neutral definition; the adapters convert it to their API's shape
+export type ToolDefinition = {
+    /** Tool-safe version of the action id (`^[A-Za-z0-9_-]{1,64}$`). */
+    name: string;
+    description: string;
+    /** Object schema of the named arguments. */
+    parameters: JSONSchema;
+    actionId: string;
+    parameterSchema: ParametersSchema;
+};
+
+export type ToolCall = {
+    id?: string;
+    name: string;
+    arguments: Record<string, unknown>;
+};
+
+export type OpenAITool = {
+    type: "function";
+    function: { name: string; description: string; parameters: JSONSchema };
+};
+
+export type AnthropicTool = {
+    name: string;
+    description: string;
+    input_schema: JSONSchema;
+};
+
+// Property holding extra arguments of handlers declared with `...args`
+const REST_ARGUMENT = "additionalArguments";
+const MAX_NAME_LENGTH = 64;
+
+/**
+ * Tool-safe name for an action id: characters tool APIs reject become `_`
+ * and overlong ids are shortened. Not guaranteed unique on its own; see
+ * `createToolDefinitions`.
+ */
+export function toolNameFor(actionId: string): string {
+    const name = actionId.replace(/[^A-Za-z0-9_-]/g, "_") || "action";
+    return name.length > MAX_NAME_LENGTH
+        ? name.slice(0, MAX_NAME_LENGTH)
+        : name;
+}
+
+function propertySchema(parameter: AiActionParameter): JSONSchema {
+    return {
+        ...(parameter.type ? { type: parameter.type } : {}),
+        ...(parameter.description
+            ? { description: parameter.description }
+            : {}),
+        ...(parameter.enum ? { enum: parameter.enum } : {}),
+    };
+}
+
+/**
+ * Object schema for the named arguments of a positional parameter schema.
+ */
+export function toArgumentsSchema(schema: ParametersSchema): JSONSchema {
+    const properties: Record<string, JSONSchema> = {};
+    schema.items.forEach((item) => {
+        properties[item.name] = propertySchema(item);
+    });
+    if (schema.additionalItems) {
+        properties[REST_ARGUMENT] = {
+            type: "array",
+            description: "Further arguments, in order",
+        };
+    }
+    return {
+        type: "object",
+        properties,
+        required: schema.items
+            .slice(0, schema.minItems)
+            .map((item) => item.name),
+    };
+}
+
+/**
+ * Positional parameters for a tool call's named arguments. Missing optional
+ * arguments at the end are dropped rather than passed as undefined.
+ */
+export function toPositionalParameters(
+    args: Record<string, unknown>,
+    schema: ParametersSchema
+): unknown[] {
+    const parameters: unknown[] = schema.items.map((item) => args[item.name]);
+    while (
+        parameters.length > schema.minItems &&
+        parameters[parameters.length - 1] === undefined
+    ) {
+        parameters.pop();
+    }
+    const rest = args[REST_ARGUMENT];
+    if (schema.additionalItems && Array.isArray(rest)) {
+        parameters.push(...rest);
+    }
+    return parameters;
+}
+
+/**
+ * Named arguments for positional parameters; the inverse of
+ * `toPositionalParameters`.
+ */
+export function toNamedArguments(
+    parameters: unknown[],
+    schema: ParametersSchema
+): Record<string, unknown> {
+    const args: Record<string, unknown> = {};
+    schema.items.forEach((item, index) => {
+        if (index < parameters.length) args[item.name] = parameters[index];
+    });
+    if (schema.additionalItems && parameters.length > schema.items.length) {
+        args[REST_ARGUMENT] = parameters.slice(schema.items.length);
+    }
+    return args;
+}
+
+/**
+ * One tool per action. Names that collide after sanitising get a `_N`
+ * suffix, in action map order.
+ */
+export function createToolDefinitions(
+    llmActionMap: LLMActionMap
+): ToolDefinition[] {
+    const used = new Set<string>();
+    return Object.entries(llmActionMap).map(([actionId, action]) => {
+        const base = toolNameFor(actionId);
+        let name = base;
+        for (let n = 2; used.has(name); n++) {
+            const suffix = `_${n}`;
+            name = base.slice(0, MAX_NAME_LENGTH - suffix.length) + suffix;
+        }
+        used.add(name);
+        return {
+            name,
+            description: action.destructive
+                ? `${action.description} (destructive; the user is asked to confirm)`
+                : action.description,
+            parameters: toArgumentsSchema(action.parameterSchema),
+            actionId,
+            parameterSchema: action.parameterSchema,
+        };
+    });
+}
+
+function definitionsOf(
+    tools: LLMActionMap | ToolDefinition[]
+): ToolDefinition[] {
+    return Array.isArray(tools) ? tools : createToolDefinitions(tools);
+}
+
+/**
+ * Tool definitions in the OpenAI Chat Completions `tools` format.
+ */
+export function toOpenAITools(
+    tools: LLMActionMap | ToolDefinition[]
+): OpenAITool[] {
+    return definitionsOf(tools).map(({ name, description, parameters }) => ({
+        type: "function",
+        function: { name, description, parameters },
+    }));
+}
+
+/**
+ * Tool definitions in the Anthropic Messages `tools` format.
+ */
+export function toAnthropicTools(
+    tools: LLMActionMap | ToolDefinition[]
+): AnthropicTool[] {
+    return definitionsOf(tools).map(({ name, description, parameters }) => ({
+        name,
+        description,
+        input_schema: parameters,
+    }));
+}
+
+/**
+ * Plan steps for the model's tool calls, in the order they were made.
+ * Calls to unknown tools are dropped.
+ */
+export function toolCallsToPlanSteps(
+    toolCalls: ToolCall[],
+    tools: ToolDefinition[]
+): PlanStep[] {
+    const byName = new Map(tools.map((tool) => [tool.name, tool]));
+    return toolCalls.flatMap((call) => {
+        const tool = byName.get(call.name);
+        if (!tool) return [];
+        return [
+            {
+                actionId: tool.actionId,
+                parameters: toPositionalParameters(
+                    call.arguments ?? {},
+                    tool.parameterSchema
+                ),
+            },
+        ];
+    });
+}
@@ -0,0 +1,108 @@
+// src/langact/useAiAction.ts
+import { useCallback, useContext, useEffect, useRef } from "react";
+import { LangactActionContext, type ManualAction } from "./Langact";
+import type { UndoHandler } from "./history";
+import {
+    declareParameters,
+    inferParameterSchema,
+    type AiActionParameter,
+} from "./schema";
+
+type AiActionHandler = ManualAction["execute"];
+
+export interface UseAiActionOptions {
+    /** Developer-chosen id, e.g. "user.save". Must be unique under a <Langact>. */
+    id: string;
+    /** Human description shown to the model. */
+    description: string;
+    handler: AiActionHandler;
+    /** Event prop the handler is bound to. Defaults to "onClick". */
+    event?: string;
+    /** Positional parameters; inferred from the handler source when omitted. */
+    parameters?: AiActionParameter[];
+    /** Require user confirmation before the model can run this action. */
+    destructive?: boolean;
+    /**
+     * Inverse of `handler`, called with the original parameters and the
+     * handler's return value. Makes the action undoable from the CommandBar.
+     */
+    undo?: UndoHandler;
+}
+
+export interface AiAction {
+    id: string;
+    execute: AiActionHandler;
+    /** Spread onto the element that triggers the action. */
+    props: Record<string, unknown>;
+}
+
+/**
+ * Registers an action explicitly instead of relying on fiber discovery.
+ * The returned `props` bind a stable handler to the element, which lets
+ * <Langact> replace the auto-discovered entry for that element with this one.
+ */
+export function useAiAction({
+    id,
+    description,
+    handler,
+    event = "onClick",
+    parameters,
+    destructive = false,
+    undo,
+}: UseAiActionOptions): AiAction {
+    const context = useContext(LangactActionContext);
+    const registerAction = context?.registerAction;
+
+    // Keep the handler fresh without changing the function we register
+    const handlerRef = useRef(handler);
+    const parametersRef = useRef(parameters);
+    const undoRef = useRef(undo);
+    useEffect(() => {
+        handlerRef.current = handler;
+        parametersRef.current = parameters;
+        undoRef.current = undo;
+    });
+
+    const execute = useCallback<AiActionHandler>(
+        (...args) => handlerRef.current(...args),
+        []
+    );
+    const stableUndo = useCallback<UndoHandler>(
+        (info) => undoRef.current?.(info),
+        []
+    );
+    const hasUndo = !!undo;
+
+    const parametersKey = JSON.stringify(parameters ?? []);
+
+    useEffect(() => {
+        if (!registerAction) return;
+        return registerAction({
+            id,
+            description,
+            event,
+            parameterSchema: parametersRef.current
+                ? declareParameters(parametersRef.current)
+                : inferParameterSchema(handlerRef.current, { event }),
+            destructive,
+            undo: hasUndo ? stableUndo : undefined,
+            execute,
+        });
+    }, [
+        registerAction,
+        id,
+        description,
+        event,
+        parametersKey,
+        destructive,
+        hasUndo,
+        stableUndo,
+        execute,
+    ]);
+
+    return {
+        id,
+        execute,
+        props: { [event]: execute, "data-langact-action": id },
+    };
+}
@@ -0,0 +1,32 @@
+// src/langact/useAiState.ts
+import { useContext, useEffect } from "react";
+import { LangactActionContext } from "./Langact";
+import { toStateValue } from "./state";
+
+export interface UseAiStateOptions {
+    /** What the value means, e.g. "The user's open tasks, in order". */
+    description?: string;
+}
+
+/**
+ * Publishes a read-only value to the nearest <Langact>, so the model can
+ * answer questions about it: `useAiState("tasks", tasks)`. The value is
+ * copied as JSON and republished whenever its content changes.
+ */
+export function useAiState(
+    key: string,
+    value: unknown,
+    { description }: UseAiStateOptions = {}
+): void {
+    const registerState = useContext(LangactActionContext)?.registerState;
+    // Compared by content, so re-renders with equal data do not republish
+    const serialised = JSON.stringify(toStateValue(value)) ?? "null";
+
+    useEffect(() => {
+        if (!registerState) return;
+        return registerState(key, {
+            description,
+            value: JSON.parse(serialised),
+        });
+    }, [registerState, key, description, serialised]);
+}
@@ -0,0 +1,17 @@
+// src/langact/useLangact.ts
+import { useContext } from "react";
+import { LangactActionContext } from "./Langact";
+import type { LangactHandle } from "./handle";
+
+/**
+ * Programmatic access to the nearest <Langact>: list and execute actions,
+ * run natural-language commands, and read or subscribe to its state. The
+ * returned handle is stable across renders.
+ */
+export function useLangact(): LangactHandle {
+    const context = useContext(LangactActionContext);
+    if (!context) {
+        throw new Error("useLangact must be used inside <Langact>");
+    }
+    return context.handle;
+}
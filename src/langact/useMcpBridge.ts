@@ -0,0 +1,25 @@
+// src/langact/useMcpBridge.ts
+import { useEffect, useRef } from "react";
+import { useLangact } from "./useLangact";
+import { connectMcpBridge, type McpBridgeOptions } from "./mcpBridge";
+
+/**
+ * Connects the nearest <Langact> to the local MCP server while `enabled`.
+ * Options are read when connecting; changing `url` or `token` reconnects.
+ */
+export function useMcpBridge({
+    enabled = true,
+    ...options
+}: McpBridgeOptions & { enabled?: boolean } = {}): void {
+    const langact = useLangact();
+    const optionsRef = useRef(options);
+    useEffect(() => {
+        optionsRef.current = options;
+    });
+
+    const { url, token } = options;
+    useEffect(() => {
+        if (!enabled) return;
+        return connectMcpBridge(langact, { ...optionsRef.current, url, token });
+    }, [langact, enabled, url, token]);
+}
@@ -0,0 +1,75 @@
+// src/langact/verify.ts
+//
+// Checks a command's outcome with the model. Once the actions have run, what
+// they returned, any errors and the UI changes go back to the model as the
+// next turn of the conversation. It either confirms the request is done or
+// picks actions that correct it, which run and are checked in turn, for up to
+// a set number of rounds.
+import { replyProse, type CommandPlan } from "./command";
+import { createTurn, type ConversationTurn } from "./conversation";
+import type { PlanResult, PlanStep, StepProgress } from "./executor";
+
+export const VERIFY_QUERY =
+    "Check the outcome of the actions above (what they returned, any errors and the UI changes) against my request and the current UI. If the request is complete, reply with a one-sentence confirmation and take no action. Otherwise take the actions that complete or correct it.";
+
+export type VerifyOptions = {
+    /** Plans the next round from the conversation so far. */
+    plan: (query: string, history: ConversationTurn[]) => Promise<CommandPlan>;
+    /** Runs the corrective steps of a round. */
+    execute: (steps: PlanStep[]) => Promise<PlanResult>;
+    /** Checks before giving up; each may run corrective actions. */
+    rounds: number;
+    /** Called as each round starts, from 1. */
+    onRound?: (round: number) => void;
+};
+
+export type VerifyResult = {
+    /** The model confirmed that the request is done. */
+    verified: boolean;
+    /** Its last reply. */
+    message: string;
+    /** One turn per round, oldest first. */
+    turns: ConversationTurn[];
+};
+
+/**
+ * Whether the outcome of a plan is worth checking: something ran, and the
+ * user did not cancel any of it.
+ */
+export function shouldVerify(progress: StepProgress[]): boolean {
+    return (
+        progress.some(
+            (step) => step.status === "done" || step.status === "failed"
+        ) && !progress.some((step) => step.status === "cancelled")
+    );
+}
+
+/**
+ * Asks the model to check the last turn of `history`, running the
+ * corrections it asks for, until it confirms or `rounds` run out.
+ */
+export async function verifyCommand(
+    history: ConversationTurn[],
+    { plan, execute, rounds, onRound }: VerifyOptions
+): Promise<VerifyResult> {
+    const turns: ConversationTurn[] = [];
+    for (let round = 1; round <= rounds; round++) {
+        onRound?.(round);
+        const next = await plan(VERIFY_QUERY, [...history, ...turns]);
+        const message = next.answer ?? replyProse(next.message);
+        if (next.steps.length === 0) {
+            turns.push({
+                ...createTurn(VERIFY_QUERY, message),
+                verification: true,
+            });
+            return { verified: next.declined, message, turns };
+        }
+        const result = await execute(next.steps);
+        turns.push({
+            ...createTurn(VERIFY_QUERY, message, result.progress),
+            verification: true,
+        });
+        if (!shouldVerify(result.progress)) break;
+    }
+    return { verified: false, message: "", turns };
+}
@@ -1,3 +1,5 @@
+// Must load before react-dom so React reports commits to Langact
+import "./langact/commits";
 import React from "react";
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    /** Base URL of a chat relay hosted apart from the app, for builds. */
+    readonly VITE_LANGACT_RELAY_URL?: string;
+}
@@ -1,12 +1,27 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createRelay, relayOptionsFromEnv } from './server/relay'
+
+// Serves the chat relay from the dev server, so `npm run dev` works without a
+// key in the browser. Put LANGACT_RELAY_API_KEY in .env.local (not committed).
+function langactRelay(env: Record<string, string>): Plugin {
+  return {
+    name: 'langact-relay',
+    configureServer(server) {
+      const relay = createRelay(relayOptionsFromEnv(env))
+      server.middlewares.use((req, res, next) => {
+        relay.handle(req, res, next)
+      })
+    },
+  }
+}
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => ({
+  plugins: [react(), langactRelay(loadEnv(mode, process.cwd(), 'LANGACT_'))],
   base: '/langact/',
   build: {
     outDir: 'dist',
     assetsDir: 'assets',
   },
-})
+}))
@@ -0,0 +1,24 @@
+import { defineWorkspace } from 'vitest/config'
+
+// Every app test runs against both builds of React: the internals <Langact>
+// reads differ between them, and the deployed app uses the production one
+export default defineWorkspace([
+  ...['development', 'production'].map((build) => ({
+    extends: './vite.config.ts',
+    // The production JSX runtime has no jsxDEV
+    esbuild: { jsxDev: build !== 'production' },
+    test: {
+      name: build,
+      include: ['src/**/*.test.{ts,tsx}'],
+      environment: 'jsdom',
+      env: { NODE_ENV: build },
+    },
+  })),
+  {
+    test: {
+      name: 'server',
+      include: ['server/**/*.test.ts'],
+      environment: 'node',
+    },
+  },
+])